@@ -1,21 +1,147 @@
 /**
- * Root app: FTP lifecycle (connect on mount, disconnect on unmount), render UI.
+ * Root app: profile picker (when no host given), password prompt (when a
+ * user has no password), FTP lifecycle (connect on mount, disconnect on
+ * unmount), render UI.
  */
 
-import React, { useEffect } from 'react';
+import React, { useState } from 'react';
+import { Box, useApp } from 'ink';
 import { useFtp } from './hooks/useFtp.js';
 import { App } from './components/App.js';
-import type { FTPConfig } from './types/index.js';
+import { Header } from './components/Header.js';
+import { InputPrompt } from './components/InputPrompt.js';
+import { ProfilePicker } from './components/ProfilePicker.js';
+import { expandHome, profileToConfig } from './services/profiles.js';
+import { resolveSearchLimits } from './services/searchQuery.js';
+import { resolveCredentials } from './services/secrets.js';
+import type { ConnectionOverrides, ConnectionProfile, FTPConfig, SearchLimits } from './types/index.js';
 
 export interface RootAppProps {
+  config: FTPConfig | null;
+  downloadDir: string;
+  startPath?: string;
+  getStartFile: boolean;
+  promptPassword: boolean;
+  profiles: ConnectionProfile[];
+  profilesPath: string;
+  profileError: string | null;
+  overrides: ConnectionOverrides; // connection flags given without a host
+  searchLimits: Partial<SearchLimits>; // CLI flags; a picked profile's limits apply under them
+  index: boolean; // --index, or the profile's "index"
+}
+
+interface Session {
   config: FTPConfig;
   downloadDir: string;
+  startPath?: string;
+  searchLimits: SearchLimits;
+  index: boolean;
+  awaitingPassword: boolean;
 }
 
-export function RootApp({ config, downloadDir }: RootAppProps): React.ReactElement {
-  useFtp(config);
+export function RootApp({
+  config,
+  downloadDir,
+  startPath,
+  getStartFile,
+  promptPassword,
+  profiles,
+  profilesPath,
+  profileError,
+  overrides,
+  searchLimits,
+  index,
+}: RootAppProps): React.ReactElement {
+  const { exit } = useApp();
+  const [session, setSession] = useState<Session | null>(
+    config
+      ? {
+          config,
+          downloadDir,
+          startPath,
+          searchLimits: resolveSearchLimits(searchLimits),
+          index,
+          awaitingPassword: promptPassword,
+        }
+      : null
+  );
+  const [password, setPassword] = useState('');
+  const [pickerError, setPickerError] = useState<string | null>(profileError);
+
+  useFtp(session && !session.awaitingPassword ? session.config : null, session?.startPath);
+
+  const hostLabel = (c: FTPConfig) => (c.protocol === 'sftp' ? `sftp://${c.host}` : c.host);
+
+  if (!session) {
+    return (
+      <ProfilePicker
+        profiles={profiles}
+        profilesPath={profilesPath}
+        error={pickerError}
+        onSelect={(p) => {
+          const base = profileToConfig(p);
+          resolveCredentials({
+            host: base.host,
+            user: overrides.user ?? p.user,
+            password: overrides.password,
+            passwordSource: 'flag',
+            passwordFile: overrides.passwordFile,
+          })
+            .then((creds) =>
+              setSession({
+                config: {
+                  ...base,
+                  port: overrides.port ?? base.port,
+                  timeout: overrides.timeout ?? base.timeout,
+                  user: creds.user,
+                  password: creds.password,
+                },
+                downloadDir: p.downloadDir ? expandHome(p.downloadDir) : downloadDir,
+                startPath: p.remotePath,
+                searchLimits: resolveSearchLimits(p.search, searchLimits),
+                index: index || p.index === true,
+                awaitingPassword: creds.needsPrompt,
+              })
+            )
+            .catch((err) => setPickerError(err instanceof Error ? err.message : String(err)));
+        }}
+        onCancel={exit}
+      />
+    );
+  }
+
+  if (session.awaitingPassword) {
+    return (
+      <Box flexDirection="column">
+        <Header host={hostLabel(session.config)} />
+        <InputPrompt
+          prompt={`Password for ${session.config.user}@${session.config.host}: `}
+          value={password}
+          mask="*"
+          onChange={setPassword}
+          onSubmit={() => {
+            setSession({
+              ...session,
+              config: { ...session.config, password },
+              awaitingPassword: false,
+            });
+            setPassword('');
+          }}
+          onCancel={exit}
+        />
+      </Box>
+    );
+  }
 
-  return <App config={config} downloadDir={downloadDir} />;
+  return (
+    <App
+      config={session.config}
+      downloadDir={session.downloadDir}
+      getStartFile={getStartFile}
+      searchLimits={session.searchLimits}
+      indexOnConnect={session.index}
+    />
+  );
 }
 
 export default RootApp;
@@ -2,10 +2,10 @@
  * Main App UI: mode-based routing, stores, hooks.
  */
 
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { Box, Text, useApp } from 'ink';
 import Spinner from 'ink-spinner';
-import type { AppProps, FileItem } from '../types/index.js';
+import type { AppMode, AppProps, ConflictAction, FileItem, IndexEntry } from '../types/index.js';
 import { Header } from './Header.js';
 import { Breadcrumb } from './Breadcrumb.js';
 import { FileList } from './FileList.js';
@@ -15,13 +15,42 @@ import { Preview } from './Preview.js';
 import { HelpPanel } from './HelpPanel.js';
 import { ProgressBar } from './ProgressBar.js';
 import { InfoPanel } from './InfoPanel.js';
-import { colors, icons, defaults, getTerminalWidth, calculateItemsPerPage } from '../utils/constants.js';
+import { TransfersView } from './TransfersView.js';
+import { ArchiveView } from './ArchiveView.js';
+import { FuzzyFinder } from './FuzzyFinder.js';
+import { InputPrompt } from './InputPrompt.js';
+import { Modal } from './Modal.js';
+import { FileOpDialog } from './FileOpDialog.js';
+import { PermissionEditor } from './PermissionEditor.js';
+import { EditSession } from './EditSession.js';
+import { colors, icons, getTerminalWidth, calculateItemsPerPage } from '../utils/constants.js';
 import { useFTPStore } from '../store/ftpSlice.js';
 import { useUIStore } from '../store/uiSlice.js';
-import { useKeyboard, useNavigation, useSearch, useDownload } from '../hooks/index.js';
-import { getFtpService } from '../store/ftpSlice.js';
+import { useKeyboard, useNavigation, useSearch, useDownload, useUpload, useRemoteIndex } from '../hooks/index.js';
+import type { LocalUploadItem } from '../hooks/useUpload.js';
+import { formatFileSize } from '../utils/format.js';
+import { archiveFormat } from '../services/archive.js';
+import { resolveSearchLimits } from '../services/searchQuery.js';
 
-export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
+/** Conflict Modal options; the "all" variants are offered for batch downloads */
+const conflictChoices: Record<string, [ConflictAction, boolean]> = {
+  'Overwrite': ['overwrite', false],
+  'Resume': ['resume', false],
+  'Skip': ['skip', false],
+  'Rename (keep both)': ['rename', false],
+  'Overwrite all': ['overwrite', true],
+  'Resume all': ['resume', true],
+  'Skip all': ['skip', true],
+  'Rename all': ['rename', true],
+};
+
+export const App: React.FC<AppProps> = ({
+  config,
+  downloadDir,
+  getStartFile = false,
+  searchLimits,
+  indexOnConnect = false,
+}) => {
   const { exit } = useApp();
 
   const mode = useUIStore((s) => s.mode);
@@ -30,15 +59,21 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
   const searchQuery = useUIStore((s) => s.searchQuery);
   const searchResults = useUIStore((s) => s.searchResults);
   const isSearching = useUIStore((s) => s.isSearching);
+  const searchError = useUIStore((s) => s.searchError);
+  const searchProgress = useUIStore((s) => s.searchProgress);
   const selectedIndex = useUIStore((s) => s.selectedIndex);
   const currentPage = useUIStore((s) => s.currentPage);
   const itemsPerPage = useUIStore((s) => s.itemsPerPage);
   const downloads = useUIStore((s) => s.downloads);
+  const downloadQueue = useUIStore((s) => s.downloadQueue);
+  const downloadConflicts = useUIStore((s) => s.downloadConflicts);
   const setCurrentPage = useUIStore((s) => s.setCurrentPage);
   const setSelectedIndex = useUIStore((s) => s.setSelectedIndex);
-  const removeDownload = useUIStore((s) => s.removeDownload);
   const clearChecked = useUIStore((s) => s.clearChecked);
   const searchInputFocused = useUIStore((s) => s.searchInputFocused);
+  const setSearchInputFocused = useUIStore((s) => s.setSearchInputFocused);
+  const fileOp = useUIStore((s) => s.fileOp);
+  const endFileOp = useUIStore((s) => s.endFileOp);
 
   const files = useFTPStore((s) => s.files);
   const currentPath = useFTPStore((s) => s.currentPath);
@@ -46,13 +81,38 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
   const error = useFTPStore((s) => s.error);
   const connected = useFTPStore((s) => s.connected);
   const clearError = useFTPStore((s) => s.clearError);
+  const setError = useFTPStore((s) => s.setError);
+  const startFile = useFTPStore((s) => s.startFile);
+  const clearStartFile = useFTPStore((s) => s.clearStartFile);
 
-  const [previewPath, setPreviewPath] = useState<string | null>(null);
-  const [previewContent, setPreviewContent] = useState('');
+  // from: mode Preview returns to, with the cursor (page, index) of the search results
+  const [preview, setPreview] = useState<{
+    remotePath: string;
+    size: number | null;
+    tail: boolean;
+    jumpTo?: number;
+    from: AppMode;
+    page: number;
+    index: number;
+  } | null>(null);
+  const [archive, setArchive] = useState<{ remotePath: string; size: number | null } | null>(null);
+  const [uploadInput, setUploadInput] = useState('');
+  const [uploadConflict, setUploadConflict] = useState<{
+    items: LocalUploadItem[];
+    existing: string[];
+  } | null>(null);
 
   const nav = useNavigation();
-  const search = useSearch();
+  const limits = useMemo(() => searchLimits ?? resolveSearchLimits(), [searchLimits]);
+  const search = useSearch(limits);
+  const remoteIndex = useRemoteIndex({
+    config,
+    exclude: limits.exclude,
+    crawlOnConnect: indexOnConnect,
+    active: mode === 'finder',
+  });
   const dl = useDownload(downloadDir);
+  const up = useUpload();
 
   // Track previous path to clear selection on navigation
   const prevPathRef = useRef(currentPath);
@@ -73,17 +133,17 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
     }
   }, [mode, loading, connected, error, setMode]);
 
-  // Auto-remove completed/failed downloads after 5 seconds
+  // Start URL named a file: put the cursor on it, and download it with --get
   useEffect(() => {
-    const completed = downloads.filter(
-      (d) => d.status === 'completed' || d.status === 'failed'
-    );
-    if (completed.length === 0) return;
-    const timer = setTimeout(() => {
-      completed.forEach((d) => removeDownload(d.id));
-    }, 3000);
-    return () => clearTimeout(timer);
-  }, [downloads, removeDownload]);
+    if (!startFile || mode !== 'browse') return;
+    const idx = files.findIndex((f) => f.name === startFile);
+    if (idx >= 0) {
+      setCurrentPage(Math.floor(idx / itemsPerPage));
+      setSelectedIndex(idx % itemsPerPage);
+      if (getStartFile) dl.addFileDownload(files[idx], currentPath);
+    }
+    clearStartFile();
+  }, [startFile, mode, files, itemsPerPage, currentPath, getStartFile, dl, setCurrentPage, setSelectedIndex, clearStartFile]);
 
   // Auto-clear error after 8 seconds
   useEffect(() => {
@@ -102,35 +162,131 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
     return () => { process.stdout.off('resize', handleResize); };
   }, []);
 
+  // The strip shows live rows only; finished ones stay listed in the Transfers view
+  const liveDownloads = downloads.filter((d) => d.status === 'downloading' || d.status === 'paused');
+  const queuedCount = downloads.filter((d) => d.status === 'pending').length;
+  const doneCount = downloads.filter((d) => d.status === 'completed').length;
+  const failedCount = downloads.filter((d) => d.status === 'failed').length;
+
   const displayItems = mode === 'search' ? searchResults : files;
   const totalPages = Math.max(1, Math.ceil(displayItems.length / itemsPerPage));
   const globalIndex = currentPage * itemsPerPage + selectedIndex;
   const selectedItem = displayItems[globalIndex] ?? null;
 
+  // A download conflict interrupts whatever view is open until it is answered, except views
+  // that keep their state locally and would start over when remounted: file operation
+  // dialogs, the fuzzy finder, Preview, Transfers and archive listings
+  const deferConflict =
+    mode === 'connecting' ||
+    mode === 'archive' ||
+    mode === 'finder' ||
+    mode === 'preview' ||
+    mode === 'transfers' ||
+    fileOp !== null;
+  const conflict = deferConflict ? null : downloadConflicts[0] ?? null;
+  const view = conflict ? 'conflict' : mode;
+
   const handlePreview = useCallback(
-    async (item: FileItem) => {
+    (item: FileItem, tail = false) => {
       if (item.type !== 'FILE') return;
       const basePath = item.path ?? currentPath;
       const remote = basePath === '/' ? `/${item.name}` : `${basePath}/${item.name}`;
-      const ftp = getFtpService();
-      if (!ftp) return;
-      try {
-        const content = await ftp.preview(remote, defaults.maxPreviewBytes);
-        setPreviewPath(item.name);
-        setPreviewContent(content);
-        setMode('preview');
-      } catch {
-        setPreviewContent(`Failed to preview ${item.name}`);
-        setPreviewPath(item.name);
-        setMode('preview');
+      setPreview({
+        remotePath: remote,
+        size: item.size,
+        tail,
+        jumpTo: tail ? undefined : item.match?.offset,
+        from: mode,
+        page: currentPage,
+        index: selectedIndex,
+      });
+      setMode('preview');
+    },
+    [currentPath, mode, currentPage, selectedIndex, setMode]
+  );
+
+  const closePreview = useCallback(() => {
+    if (preview?.from === 'search') {
+      // Back to the results where they were left
+      setMode('search');
+      setCurrentPage(preview.page);
+      setSelectedIndex(preview.index);
+      setSearchInputFocused(false);
+    } else {
+      setMode('browse');
+    }
+    setPreview(null);
+  }, [preview, setMode, setCurrentPage, setSelectedIndex, setSearchInputFocused]);
+
+  const handleArchive = useCallback(
+    (item: FileItem) => {
+      if (!archiveFormat(item.name)) {
+        setError(`Not an archive: ${item.name} (zip, tar, tar.gz and tgz can be listed)`);
+        return;
       }
+      const basePath = item.path ?? currentPath;
+      const remote = basePath === '/' ? `/${item.name}` : `${basePath}/${item.name}`;
+      setArchive({ remotePath: remote, size: item.size });
+      setMode('archive');
     },
-    [currentPath, setMode]
+    [currentPath, setError, setMode]
   );
 
+  // Fuzzy finder: a directory is entered, a file is shown in its directory under the cursor
+  const openIndexed = useCallback(
+    async (entry: IndexEntry) => {
+      setMode('browse');
+      const target = entry.path === '/' ? `/${entry.name}` : `${entry.path}/${entry.name}`;
+      if (entry.type === 'DIR') {
+        await nav.navigateTo(target);
+        return;
+      }
+      await nav.navigateTo(entry.path);
+      const state = useFTPStore.getState();
+      if (state.currentPath !== entry.path) return;
+      const idx = state.files.findIndex((f) => f.name === entry.name);
+      if (idx < 0) {
+        setError(`${target} is no longer on the server`);
+        return;
+      }
+      setCurrentPage(Math.floor(idx / itemsPerPage));
+      setSelectedIndex(idx % itemsPerPage);
+    },
+    [nav, itemsPerPage, setMode, setError, setCurrentPage, setSelectedIndex]
+  );
+
+  // Upload prompt submitted: check local paths, ask before replacing remote names
+  const handleUploadSubmit = useCallback(async () => {
+    const input = uploadInput;
+    setUploadInput('');
+    let items: LocalUploadItem[];
+    try {
+      items = await up.resolveLocalPaths(input);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid upload path');
+      setMode('browse');
+      return;
+    }
+    const names = new Set(files.map((f) => f.name));
+    const existing = items.filter((i) => names.has(i.name)).map((i) => i.name);
+    if (existing.length > 0) {
+      setUploadConflict({ items, existing });
+      return;
+    }
+    up.uploadItems(items, currentPath, false);
+    setMode('browse');
+  }, [uploadInput, files, currentPath, up, setError, setMode]);
+
+  const closeUpload = useCallback(() => {
+    setUploadInput('');
+    setUploadConflict(null);
+    setMode('browse');
+  }, [setMode]);
+
   useKeyboard({
     downloadDir,
     onPreview: handlePreview,
+    onArchive: handleArchive,
     exit,
   });
 
@@ -150,7 +306,7 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
 
   return (
     <Box flexDirection="column">
-      <Header host={config.host} />
+      <Header host={config.protocol === 'sftp' ? `sftp://${config.host}` : config.host} />
       <Box height={1} />
       <Breadcrumb path={currentPath} />
       <Box height={1} />
@@ -171,7 +327,7 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
         </Box>
       )}
 
-      {mode === 'browse' && !loading && (
+      {view === 'browse' && !loading && (
         <FileList
           items={displayItems}
           selectedIndex={globalIndex}
@@ -191,7 +347,7 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
         />
       )}
 
-      {mode === 'search' && (
+      {view === 'search' && (
         <Box flexDirection="column">
           <SearchBox
             isActive
@@ -200,6 +356,9 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
             onCancel={onSearchCancel}
             isSearching={isSearching}
             inputFocused={searchInputFocused}
+            error={searchError}
+            progress={searchProgress}
+            limits={limits}
           />
           {searchResults.length > 0 && (
             <FileList
@@ -222,36 +381,149 @@ export const App: React.FC<AppProps> = ({ config, downloadDir }) => {
         </Box>
       )}
 
-      {mode === 'preview' && previewPath && (
+      {view === 'preview' && preview && (
         <Preview
-          filePath={previewPath}
-          content={previewContent}
+          key={`${preview.remotePath}:${preview.tail}:${preview.jumpTo}`}
+          remotePath={preview.remotePath}
+          size={preview.size}
+          tail={preview.tail}
+          jumpTo={preview.jumpTo}
+          onClose={closePreview}
+        />
+      )}
+
+      {view === 'archive' && archive && (
+        <ArchiveView
+          key={archive.remotePath}
+          remotePath={archive.remotePath}
+          size={archive.size}
+          downloadDir={downloadDir}
           onClose={() => {
             setMode('browse');
-            setPreviewPath(null);
-            setPreviewContent('');
+            setArchive(null);
           }}
         />
       )}
 
-      {mode === 'help' && <HelpPanel onClose={() => setMode('browse')} />}
+      {view === 'finder' && (
+        <FuzzyFinder
+          host={config.protocol === 'sftp' ? `sftp://${config.host}` : config.host}
+          status={remoteIndex.status}
+          entries={remoteIndex.entries}
+          onOpen={openIndexed}
+          onRefresh={remoteIndex.refresh}
+          onBuild={remoteIndex.build}
+          onClose={() => setMode('browse')}
+        />
+      )}
+
+      {view === 'help' && <HelpPanel onClose={() => setMode('browse')} />}
 
-      {downloads.length > 0 && (
+      {view === 'upload' && !uploadConflict && (
+        <Box flexDirection="column">
+          <InputPrompt
+            prompt={`Upload to ${currentPath}: `}
+            value={uploadInput}
+            onChange={setUploadInput}
+            onSubmit={() => { handleUploadSubmit(); }}
+            onCancel={closeUpload}
+          />
+          <Text>{colors.muted('Local files or directories, separated by spaces (quote names with spaces)')}</Text>
+        </Box>
+      )}
+
+      {view === 'upload' && uploadConflict && (
+        <Modal
+          title="Upload: name already exists"
+          message={
+            `${uploadConflict.existing.slice(0, 5).join(', ')}` +
+            (uploadConflict.existing.length > 5 ? ` and ${uploadConflict.existing.length - 5} more` : '') +
+            ` already exist in ${currentPath}.\n` +
+            'Overwrite replaces them; Resume continues partial uploads from the remote size.'
+          }
+          options={['Overwrite', 'Resume', 'Cancel']}
+          onSelect={(option) => {
+            if (option !== 'Cancel') up.uploadItems(uploadConflict.items, currentPath, option === 'Resume');
+            closeUpload();
+          }}
+          onCancel={closeUpload}
+        />
+      )}
+
+      {view === 'fileop' && fileOp?.kind === 'edit' && (
+        <EditSession
+          op={fileOp}
+          onDone={(message) => {
+            endFileOp();
+            if (message) setError(message);
+          }}
+        />
+      )}
+
+      {view === 'fileop' && fileOp && fileOp.kind !== 'edit' && (() => {
+        const Dialog = fileOp.kind === 'chmod' ? PermissionEditor : FileOpDialog;
+        return (
+          <Dialog
+            op={fileOp}
+            onDone={(message) => {
+              clearChecked();
+              endFileOp();
+              if (message) setError(message);
+            }}
+            onCancel={endFileOp}
+          />
+        );
+      })()}
+
+      {view === 'conflict' && conflict && (
+        <Modal
+          key={conflict.id}
+          title={conflict.claimedBy ? 'Target already queued' : 'File already exists'}
+          message={
+            (conflict.claimedBy
+              ? `${conflict.localPath} is also the target of ${conflict.claimedBy}.\n`
+              : `${conflict.localPath} (${formatFileSize(conflict.localSize)}) already exists.\n`) +
+            `Downloading: ${conflict.remotePath}` +
+            (downloadConflicts.length > 1 ? `\n\n${downloadConflicts.length - 1} more conflict(s) waiting` : '')
+          }
+          options={Object.keys(conflictChoices).filter((o) => conflict.inBatch || !conflictChoices[o][1])}
+          onSelect={(option) => {
+            const [action, applyToAll] = conflictChoices[option];
+            dl.resolveConflict(conflict.id, action, applyToAll);
+          }}
+          onCancel={() => dl.resolveConflict(conflict.id, 'skip', false)}
+        />
+      )}
+
+      {view === 'transfers' && (
+        <TransfersView
+          downloads={downloads}
+          queue={downloadQueue}
+          onClose={() => setMode('browse')}
+        />
+      )}
+
+      {view !== 'transfers' && downloads.length > 0 && (
         <Box flexDirection="column">
           <Text>
             {colors.muted(
-              `── Downloads ${
+              `── Transfers ${
                 '─'.repeat(Math.max(1, getTerminalWidth() - 16))
               }`
             )}
           </Text>
-          {downloads.map((d) => (
+          {liveDownloads.map((d) => (
             <ProgressBar key={d.id} progress={d} />
           ))}
+          <Text>
+            {colors.muted(`   ${queuedCount} queued  ${doneCount} done  `)}
+            {failedCount > 0 ? colors.error(`${failedCount} failed  `) : ''}
+            {colors.muted('[t] Transfers')}
+          </Text>
         </Box>
       )}
 
-      {(mode === 'browse' || mode === 'search') ? (
+      {(view === 'browse' || view === 'search') ? (
         <InfoPanel item={selectedItem} currentPath={currentPath} />
       ) : (
         <Box height={1} />
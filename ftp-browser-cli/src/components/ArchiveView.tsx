@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import type { ArchiveEntry, ArchiveViewProps } from '../types/index.js';
+import { Preview } from './Preview.js';
+import { Modal } from './Modal.js';
+import { borders, colors, defaults, getTerminalWidth } from '../utils/constants.js';
+import { formatDate, formatFileSize } from '../utils/format.js';
+import { useArchive } from '../hooks/useArchive.js';
+import { useUIStore } from '../store/uiSlice.js';
+
+/**
+ * ArchiveView: entries of a remote zip, tar or tar.gz with their sizes and
+ * dates; a single entry can be previewed or extracted to the download directory.
+ *
+ * Keys:
+ *   Up/k Down/j, PgUp/PgDn, g/G   Move cursor
+ *   Enter/p                        Preview entry
+ *   d                              Extract entry to the download directory
+ *   Esc/q                          Close (stops a listing still reading)
+ */
+export const ArchiveView: React.FC<ArchiveViewProps> = ({ remotePath, size, downloadDir, onClose }) => {
+  const itemsPerPage = useUIStore((s) => s.itemsPerPage);
+  const archive = useArchive(remotePath, size, downloadDir);
+  const [cursor, setCursor] = useState(0);
+  const [previewEntry, setPreviewEntry] = useState<ArchiveEntry | null>(null);
+  const [conflict, setConflict] = useState<{ entry: ArchiveEntry; localPath: string } | null>(null);
+  const [extracting, setExtracting] = useState<{ entry: ArchiveEntry; bytesRead: number } | null>(null);
+  const [message, setMessage] = useState<{ text: string; failed: boolean } | null>(null);
+
+  const { entries } = archive;
+  const index = Math.min(cursor, Math.max(0, entries.length - 1));
+  const current = entries[index] ?? null;
+  const reader = useMemo(() => (previewEntry ? archive.entryReader(previewEntry) : undefined), [previewEntry]);
+
+  const runExtract = async (entry: ArchiveEntry, localPath: string, keepBoth: boolean) => {
+    setMessage(null);
+    setExtracting({ entry, bytesRead: 0 });
+    try {
+      const written = await archive.extract(entry, localPath, keepBoth, (bytesRead) =>
+        setExtracting({ entry, bytesRead })
+      );
+      setMessage({ text: `Extracted ${entry.name} to ${written}`, failed: false });
+    } catch (err) {
+      setMessage({ text: `Cannot extract ${entry.name}: ${err instanceof Error ? err.message : err}`, failed: true });
+    } finally {
+      setExtracting(null);
+    }
+  };
+
+  useInput((input, key) => {
+    if (previewEntry || conflict) return; // Preview / Modal own the keyboard
+    if (key.escape || input === 'q') {
+      onClose();
+      return;
+    }
+    const move = (to: number) => setCursor(Math.max(0, Math.min(entries.length - 1, to)));
+    if (key.upArrow || input === 'k') move(index - 1);
+    else if (key.downArrow || input === 'j') move(index + 1);
+    else if (key.pageUp) move(index - itemsPerPage);
+    else if (key.pageDown) move(index + itemsPerPage);
+    else if (input === 'g') move(0);
+    else if (input === 'G') move(entries.length - 1);
+    if (!current || current.isDirectory || current.link !== null) return;
+    if (key.return || input === 'p') {
+      setMessage(null);
+      setPreviewEntry(current);
+    } else if (input === 'd' && !extracting) {
+      const entry = current;
+      archive.extractTarget(entry).then(({ localPath, exists }) => {
+        if (exists) setConflict({ entry, localPath });
+        else runExtract(entry, localPath, false);
+      });
+    }
+  });
+
+  if (previewEntry) {
+    return (
+      <Preview
+        key={previewEntry.offset}
+        remotePath={`${remotePath}/${previewEntry.name}`}
+        size={Math.min(previewEntry.size, defaults.archivePreviewBytes)}
+        reader={reader}
+        onClose={() => setPreviewEntry(null)}
+      />
+    );
+  }
+
+  if (conflict) {
+    return (
+      <Modal
+        title="File already exists"
+        message={`${conflict.localPath} already exists.\nExtracting: ${conflict.entry.name}`}
+        options={['Overwrite', 'Keep both', 'Cancel']}
+        onSelect={(option) => {
+          if (option !== 'Cancel') runExtract(conflict.entry, conflict.localPath, option === 'Keep both');
+          setConflict(null);
+        }}
+        onCancel={() => setConflict(null)}
+      />
+    );
+  }
+
+  const width = getTerminalWidth();
+  const borderLine = borders.horizontal.repeat(width - 2);
+  const name = remotePath.split('/').pop() ?? remotePath;
+  const files = entries.filter((e) => !e.isDirectory);
+  const total = files.reduce((sum, e) => sum + e.size, 0);
+  const title = `Archive: ${name} (${archive.format ?? '?'})`.slice(0, width - 4);
+
+  let status: string;
+  if (extracting) {
+    status = `Extracting ${extracting.entry.name}... ${formatFileSize(extracting.bytesRead)} of the archive read`;
+  } else if (message) {
+    status = message.text;
+  } else if (archive.error) {
+    status = archive.error;
+  } else if (archive.listing) {
+    status =
+      archive.format === 'zip'
+        ? 'Reading central directory...'
+        : `Listing... ${formatFileSize(archive.bytesRead)}${archive.size ? ` of ${formatFileSize(archive.size)}` : ''} read, ${entries.length} entries`;
+  } else {
+    const dirs = entries.length - files.length;
+    status =
+      `${files.length} file${files.length === 1 ? '' : 's'}, ${dirs} director${dirs === 1 ? 'y' : 'ies'}, ` +
+      `${formatFileSize(total)} uncompressed`;
+  }
+  status = status.slice(0, width - 6);
+  const busy = !!extracting || (archive.listing && !archive.error);
+  const failed = (message?.failed ?? false) || (!!archive.error && !message && !extracting);
+  const footer = '[Enter/p]Preview [d]Extract [g/G]Top/End [Esc]Close';
+
+  // Keep the cursor row inside the visible window
+  const pageStart = Math.max(0, Math.min(index - Math.floor(itemsPerPage / 2), entries.length - itemsPerPage));
+  const visible = entries.slice(pageStart, pageStart + itemsPerPage);
+  const nameWidth = Math.max(10, width - 2 - 2 - 10 - 2 - 16 - 2);
+
+  return (
+    <Box flexDirection="column">
+      <Text>
+        {colors.border(`${borders.topLeft}${borderLine}${borders.topRight}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.highlight(title)}
+        {' '.repeat(Math.max(1, width - title.length - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {busy ? <Spinner type="dots" /> : ' '}
+        {' '}
+        {failed ? colors.error(status) : colors.info(status)}
+        {' '.repeat(Math.max(1, width - status.length - 5))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Box flexDirection="column" paddingX={1}>
+        {entries.length === 0 && !archive.listing && <Text>{colors.muted('No entries')}</Text>}
+        {visible.map((e) => {
+          const isSelected = e === current;
+          const label = e.link !== null ? `${e.name} -> ${e.link}` : e.name;
+          const shown = label.length > nameWidth ? `…${label.slice(-(nameWidth - 1))}` : label;
+          const color = e.isDirectory ? colors.directory : e.link !== null ? colors.symlink : colors.file;
+          return (
+            <Text key={e.offset}>
+              {isSelected ? colors.selected('▸ ') : '  '}
+              {colors.muted((e.isDirectory || e.link !== null ? '' : formatFileSize(e.size)).padStart(10))}
+              {'  '}
+              {colors.muted(formatDate(e.date?.toISOString() ?? null).padEnd(16))}
+              {'  '}
+              {isSelected ? colors.selected(shown) : color(shown)}
+            </Text>
+          );
+        })}
+      </Box>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.muted(footer.slice(0, width - 4))}
+        {' '.repeat(Math.max(1, width - Math.min(footer.length, width - 4) - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.bottomLeft}${borderLine}${borders.bottomRight}`)}
+      </Text>
+    </Box>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Text } from 'ink';
+import Spinner from 'ink-spinner';
+import type { EditSessionProps } from '../types/index.js';
+import { Modal } from './Modal.js';
+import { colors } from '../utils/constants.js';
+import { useEditFile, type EditedFile } from '../hooks/useEditFile.js';
+import { useFileOps } from '../hooks/useFileOps.js';
+
+type Step = 'fetching' | 'checking' | 'uploading';
+
+const stepLabels: Record<Step, string> = {
+  fetching: 'Downloading for editing',
+  checking: 'Checking the remote file',
+  uploading: 'Uploading changes',
+};
+
+function message(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * EditSession: fetch, $EDITOR, upload for one remote file.
+ *
+ * Runs on mount; the terminal belongs to the editor while it is open. An
+ * unchanged file is not uploaded. If the remote file changed meanwhile, asks
+ * before overwriting; declining keeps the edited copy and reports its path.
+ */
+export const EditSession: React.FC<EditSessionProps> = ({ op, onDone }) => {
+  const editor = useEditFile();
+  const ops = useFileOps();
+  const item = op.items[0];
+  const [step, setStep] = useState<Step>('fetching');
+  const [conflict, setConflict] = useState<{ file: EditedFile; change: string } | null>(null);
+
+  const kept = (file: EditedFile) => `your edit is kept at ${file.localPath}`;
+
+  const upload = async (file: EditedFile) => {
+    setConflict(null);
+    setStep('uploading');
+    try {
+      await editor.upload(file);
+    } catch (err) {
+      onDone(`Upload of ${item.name} failed: ${message(err)}; ${kept(file)}`);
+      return;
+    }
+    await editor.discard(file);
+    await ops.refresh();
+    onDone(null);
+  };
+
+  useEffect(() => {
+    (async () => {
+      let file: EditedFile;
+      try {
+        file = await editor.fetchFile(item, op.dir);
+      } catch (err) {
+        onDone(`Cannot edit ${item.name}: ${message(err)}`);
+        return;
+      }
+      let changed: boolean;
+      try {
+        changed = await editor.edit(file);
+      } catch (err) {
+        await editor.discard(file);
+        onDone(message(err));
+        return;
+      }
+      if (!changed) {
+        await editor.discard(file);
+        onDone(null);
+        return;
+      }
+      setStep('checking');
+      let change: string | null;
+      try {
+        change = await editor.remoteChange(file);
+      } catch (err) {
+        onDone(`Cannot check ${file.remotePath}: ${message(err)}; ${kept(file)}`);
+        return;
+      }
+      if (change) {
+        setConflict({ file, change });
+        return;
+      }
+      await upload(file);
+    })();
+  }, []);
+
+  if (conflict) {
+    const { file, change } = conflict;
+    const decline = () => onDone(`${item.name} was not uploaded (changed on the server); ${kept(file)}`);
+    return (
+      <Modal
+        title="Remote file changed"
+        message={
+          `${file.remotePath} changed on the server while you were editing: ${change}.\n` +
+          'Overwrite replaces it with your version; Cancel keeps your edit in a local file.'
+        }
+        options={['Overwrite', 'Cancel']}
+        onSelect={(option) => {
+          if (option === 'Overwrite') upload(file);
+          else decline();
+        }}
+        onCancel={decline}
+      />
+    );
+  }
+
+  return (
+    <Box>
+      <Text>
+        <Spinner type="dots" /> {colors.info(`${stepLabels[step]}: ${item.name}...`)}
+      </Text>
+    </Box>
+  );
+};
@@ -71,12 +71,22 @@ export const FileListItem: React.FC<FileListItemProps> = ({
         <Text>{colors.muted(typeLabel)}</Text>
       </Box>
       <Box flexGrow={1}>
-        <Text>
-          {textColor(item.name)}
-          {item.path && ` ${colors.muted(`in ${item.path}`)}`}
-          {symlinkTarget && ` ${colors.muted(symlinkTarget)}`}
-          {sizeText && ` ${colors.muted(sizeText)}`}
-        </Text>
+        {item.match ? (
+          // Content search match: file:line and the line, cut at the edge
+          <Text wrap="truncate-end">
+            {textColor(item.name)}
+            {colors.highlight(`:${item.match.line}`)}
+            {item.path && ` ${colors.muted(`in ${item.path}`)}`}
+            {`  ${item.match.text}`}
+          </Text>
+        ) : (
+          <Text>
+            {textColor(item.name)}
+            {item.path && ` ${colors.muted(`in ${item.path}`)}`}
+            {symlinkTarget && ` ${colors.muted(symlinkTarget)}`}
+            {sizeText && ` ${colors.muted(sizeText)}`}
+          </Text>
+        )}
       </Box>
     </Box>
   );
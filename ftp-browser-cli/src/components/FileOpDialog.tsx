@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Box, Text } from 'ink';
+import Spinner from 'ink-spinner';
+import type { FileItem, FileOpDialogProps, FileOpKind } from '../types/index.js';
+import { InputPrompt } from './InputPrompt.js';
+import { Modal } from './Modal.js';
+import { colors } from '../utils/constants.js';
+import { joinPath } from '../utils/path.js';
+import {
+  describeFailures,
+  resolveDir,
+  useFileOps,
+  type DirEntries,
+  type ExistingTarget,
+  type FileOpResult,
+} from '../hooks/useFileOps.js';
+
+type Step = 'input' | 'confirm' | 'running';
+
+/** "a.txt, b.log and 3 more" */
+function nameList(items: FileItem[]): string {
+  const names = items.slice(0, 5).map((i) => (i.type === 'DIR' ? `${i.name}/` : i.name));
+  return names.join(', ') + (items.length > 5 ? ` and ${items.length - 5} more` : '');
+}
+
+const progressLabels: Record<FileOpKind, string> = {
+  delete: 'Deleting',
+  rename: 'Renaming',
+  move: 'Moving',
+  mkdir: 'Creating directory',
+  chmod: 'Changing permissions',
+  edit: 'Editing',
+};
+const doneLabels: Record<FileOpKind, string> = {
+  delete: 'Deleted',
+  rename: 'Renamed',
+  move: 'Moved',
+  mkdir: 'Created',
+  chmod: 'Changed',
+  edit: 'Edited',
+};
+
+/**
+ * FileOpDialog: prompt and confirmation for delete, rename, move and mkdir.
+ *
+ * Delete always asks first; rename and move ask before replacing an existing
+ * name. Owns the keyboard until onDone (ran; failure summary or null) or onCancel.
+ */
+export const FileOpDialog: React.FC<FileOpDialogProps> = ({ op, onDone, onCancel }) => {
+  const ops = useFileOps();
+  const item = op.items[0];
+  const [step, setStep] = useState<Step>(op.kind === 'delete' ? 'confirm' : 'input');
+  const [value, setValue] = useState(
+    op.kind === 'rename' ? item?.name ?? '' : op.kind === 'move' ? (op.dir === '/' ? '/' : `${op.dir}/`) : ''
+  );
+  const [problem, setProblem] = useState<string | null>(null);
+  // Rename/move target: directory and its current entries
+  const [target, setTarget] = useState<{ dir: string; name: string; entries: DirEntries; clashes: FileItem[] } | null>(
+    null
+  );
+
+  const finish = async (run: () => Promise<FileOpResult>, total: number) => {
+    setStep('running');
+    let message: string | null = null;
+    try {
+      const result = await run();
+      if (result.failures.length > 0) {
+        message = total === 1 ? result.failures[0].error : describeFailures(doneLabels[op.kind], total, result);
+      }
+    } catch (err) {
+      message = err instanceof Error ? err.message : String(err);
+    }
+    await ops.refresh();
+    onDone(message);
+  };
+
+  const runMove = (onExisting: ExistingTarget) => {
+    if (!target) return;
+    if (op.kind === 'rename') {
+      finish(() => ops.renameItem(item, op.dir, target.name, target.entries, onExisting), 1);
+    } else {
+      finish(() => ops.moveItems(op.items, op.dir, target.dir, target.entries, onExisting), op.items.length);
+    }
+  };
+
+  const submit = async () => {
+    const input = value.trim();
+    if (op.kind === 'mkdir') {
+      if (!input) return;
+      finish(() => ops.makeDirectory(op.dir, input), 1);
+      return;
+    }
+    if (op.kind === 'rename') {
+      if (!input || input.includes('/')) {
+        setProblem('Enter a new name (no "/"; use move to change directory)');
+        return;
+      }
+      if (input === item.name) {
+        onCancel();
+        return;
+      }
+    }
+    const dir = op.kind === 'rename' ? item.path ?? op.dir : resolveDir(op.dir, input);
+    let entries: DirEntries;
+    try {
+      entries = await ops.listEntries(dir);
+    } catch (err) {
+      setProblem(`Cannot open ${dir}: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    const clashes =
+      op.kind === 'rename'
+        ? entries.has(input) ? [{ ...item, name: input, type: entries.get(input)! }] : []
+        : op.items.filter((i) => entries.has(i.name) && joinPath(i.path ?? op.dir, i.name) !== joinPath(dir, i.name));
+    if (clashes.length > 0) {
+      setTarget({ dir, name: input, entries, clashes });
+      setStep('confirm');
+      return;
+    }
+    if (op.kind === 'rename') finish(() => ops.renameItem(item, op.dir, input, entries, 'skip'), 1);
+    else finish(() => ops.moveItems(op.items, op.dir, dir, entries, 'skip'), op.items.length);
+  };
+
+  if (step === 'running') {
+    return (
+      <Box>
+        <Text>
+          <Spinner type="dots" /> {colors.info(`${progressLabels[op.kind]}...`)}
+        </Text>
+      </Box>
+    );
+  }
+
+  if (step === 'confirm' && op.kind === 'delete') {
+    const dirs = op.items.filter((i) => i.type === 'DIR').length;
+    return (
+      <Modal
+        title={`Delete ${op.items.length === 1 ? `"${item.name}"` : `${op.items.length} items`}?`}
+        message={
+          `${nameList(op.items)}\n` +
+          (dirs > 0 ? `\n${dirs} director${dirs === 1 ? 'y is' : 'ies are'} deleted with everything in them.` : '') +
+          '\nThis cannot be undone.'
+        }
+        options={['Delete', 'Cancel']}
+        onSelect={(option) => {
+          if (option === 'Delete') finish(() => ops.deleteItems(op.items, op.dir), op.items.length);
+          else onCancel();
+        }}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  if (step === 'confirm' && target) {
+    const several = op.kind === 'move' && op.items.length > 1;
+    return (
+      <Modal
+        title="Name already exists"
+        message={
+          `${nameList(target.clashes)} already exist${target.clashes.length === 1 ? 's' : ''} in ${target.dir}.\n` +
+          'Replace deletes the existing file first; existing directories are never replaced.'
+        }
+        options={several ? ['Replace', 'Skip existing', 'Cancel'] : ['Replace', 'Cancel']}
+        onSelect={(option) => {
+          if (option === 'Replace') runMove('replace');
+          else if (option === 'Skip existing') runMove('skip');
+          else onCancel();
+        }}
+        onCancel={onCancel}
+      />
+    );
+  }
+
+  const prompt =
+    op.kind === 'rename'
+      ? `Rename ${item.name} to: `
+      : op.kind === 'move'
+        ? `Move ${op.items.length === 1 ? item.name : `${op.items.length} items`} to: `
+        : `New directory in ${op.dir}: `;
+
+  return (
+    <Box flexDirection="column">
+      <InputPrompt
+        prompt={prompt}
+        value={value}
+        onChange={(v) => {
+          setValue(v);
+          setProblem(null);
+        }}
+        onSubmit={() => {
+          submit();
+        }}
+        onCancel={onCancel}
+      />
+      {problem ? (
+        <Text>{colors.error(problem)}</Text>
+      ) : (
+        <Text>
+          {colors.muted(op.kind === 'move' ? 'Destination directory, absolute or relative to the current one' : '')}
+        </Text>
+      )}
+    </Box>
+  );
+};
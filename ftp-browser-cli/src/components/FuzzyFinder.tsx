@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import type { FuzzyFinderProps, IndexEntry } from '../types/index.js';
+import { borders, colors, defaults, getTerminalWidth } from '../utils/constants.js';
+import { formatAge, formatFileSize } from '../utils/format.js';
+import { fuzzyMatchAll } from '../utils/fuzzy.js';
+import { useUIStore } from '../store/uiSlice.js';
+
+const count = (n: number, one: string, many: string) => `${n.toLocaleString('en-US')} ${n === 1 ? one : many}`;
+
+const fullPath = (e: IndexEntry) => `${e.path === '/' ? '' : e.path}/${e.name}${e.type === 'DIR' ? '/' : ''}`;
+
+/** Text cut from the left to width ('…' first), matched characters highlighted */
+function highlight(text: string, positions: number[], width: number, color: (s: string) => string): string {
+  const cut = text.length > width ? text.length - width + 1 : 0;
+  const marked = new Set(positions.map((p) => p - cut));
+  const shown = cut > 0 ? text.slice(cut) : text;
+  let out = cut > 0 ? colors.muted('…') : '';
+  for (let i = 0; i < shown.length; i++) out += marked.has(i) ? colors.highlight(shown[i]) : color(shown[i]);
+  return out;
+}
+
+/**
+ * FuzzyFinder: fzf-style search over every path in the remote index. Entries
+ * whose directory was listed more than defaults.indexStaleMs ago show their age.
+ *
+ * Keys:
+ *   typing, Backspace, Ctrl-U       Edit the query (space-separated words all match)
+ *   Up/Ctrl-P Down/Ctrl-N, PgUp/PgDn Move cursor
+ *   Enter                           Go to the entry (its directory, cursor on it)
+ *   Ctrl-R                          Re-list the entry's directory
+ *   Ctrl-B                          Crawl the host in the background
+ *   Esc                             Close
+ */
+export const FuzzyFinder: React.FC<FuzzyFinderProps> = ({
+  host,
+  status,
+  entries,
+  onOpen,
+  onRefresh,
+  onBuild,
+  onClose,
+}) => {
+  const itemsPerPage = useUIStore((s) => s.itemsPerPage);
+  const [query, setQuery] = useState('');
+  const [cursor, setCursor] = useState(0);
+
+  const texts = useMemo(() => entries.map(fullPath), [entries]);
+  const matches = useMemo(() => {
+    if (!query.trim()) {
+      return entries
+        .slice(0, defaults.finderMaxResults)
+        .map((entry, i) => ({ entry, text: texts[i], positions: [] as number[] }));
+    }
+    const found: { entry: IndexEntry; text: string; positions: number[]; score: number }[] = [];
+    entries.forEach((entry, i) => {
+      const m = fuzzyMatchAll(query, texts[i]);
+      if (m) found.push({ entry, text: texts[i], positions: m.positions, score: m.score });
+    });
+    found.sort((a, b) => b.score - a.score || a.text.length - b.text.length);
+    return found.slice(0, defaults.finderMaxResults);
+  }, [query, entries, texts]);
+
+  const index = Math.min(cursor, Math.max(0, matches.length - 1));
+  const current = matches[index]?.entry ?? null;
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onClose();
+      return;
+    }
+    const move = (to: number) => setCursor(Math.max(0, Math.min(matches.length - 1, to)));
+    if (key.upArrow || (key.ctrl && input === 'p')) move(index - 1);
+    else if (key.downArrow || (key.ctrl && input === 'n')) move(index + 1);
+    else if (key.pageUp) move(index - itemsPerPage);
+    else if (key.pageDown) move(index + itemsPerPage);
+    else if (key.return) {
+      if (current) onOpen(current);
+    } else if (key.ctrl && input === 'r') {
+      if (current) onRefresh(current.path);
+    } else if (key.ctrl && input === 'b') onBuild();
+    else if (key.ctrl && input === 'u') {
+      setQuery('');
+      setCursor(0);
+    } else if (key.backspace || key.delete) {
+      setQuery((q) => q.slice(0, -1));
+      setCursor(0);
+    } else if (input && !key.ctrl && !key.meta && !key.tab && !/[\x00-\x1f\x7f]/.test(input)) {
+      setQuery((q) => q + input);
+      setCursor(0);
+    }
+  });
+
+  const width = getTerminalWidth();
+  const borderLine = borders.horizontal.repeat(width - 2);
+  const now = Date.now();
+  const paths = count(status.entries, 'path', 'paths');
+  const age = status.oldest !== null ? `, oldest listing ${formatAge(now - status.oldest)} ago` : '';
+  const title = `Find in ${host}: ${paths} in ${count(status.directories, 'directory', 'directories')}${age}`.slice(
+    0,
+    width - 4
+  );
+
+  let line: string;
+  if (status.crawl) {
+    const { scanned, queued, current: dir } = status.crawl;
+    line = `Indexing... ${count(scanned, 'directory', 'directories')} listed, ${queued} queued${dir ? `  ${dir}` : ''}`;
+  } else if (status.error) {
+    line = status.error;
+  } else if (!status.loaded) {
+    line = 'Reading the index...';
+  } else if (!status.enabled) {
+    line = `No index for ${host} yet: Ctrl-B crawls it in the background`;
+  } else {
+    line = `${matches.length === defaults.finderMaxResults ? `best ${matches.length}` : matches.length} of ${paths}`;
+  }
+  line = line.slice(0, width - 6);
+  const busy = !!status.crawl || !status.loaded;
+  const footer = '[↑↓]Move [Enter]Go to [^R]Re-list dir [^B]Crawl host [^U]Clear [Esc]Close';
+
+  // Keep the cursor row inside the visible window
+  const rows = Math.max(1, itemsPerPage - 1);
+  const pageStart = Math.max(0, Math.min(index - Math.floor(rows / 2), matches.length - rows));
+  const visible = matches.slice(pageStart, pageStart + rows);
+
+  return (
+    <Box flexDirection="column">
+      <Text>
+        {colors.border(`${borders.topLeft}${borderLine}${borders.topRight}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.highlight(title)}
+        {' '.repeat(Math.max(1, width - title.length - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {busy ? <Spinner type="dots" /> : ' '}
+        {' '}
+        {status.error && !status.crawl ? colors.error(line) : colors.info(line)}
+        {' '.repeat(Math.max(1, width - line.length - 5))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Box flexDirection="column" paddingX={1}>
+        <Text>
+          {colors.selected('> ')}
+          {query}
+          {colors.selected('█')}
+        </Text>
+        {visible.map(({ entry, text, positions }) => {
+          const isSelected = entry === current;
+          const stale = now - entry.listedAt > defaults.indexStaleMs;
+          const size = entry.type === 'FILE' ? formatFileSize(entry.size) : '';
+          const right = `${size.padStart(10)}${stale ? `  indexed ${formatAge(now - entry.listedAt)} ago` : ''}`;
+          const pathWidth = Math.max(10, width - 4 - 2 - right.length - 2);
+          const color = isSelected
+            ? colors.selected
+            : entry.type === 'DIR'
+              ? colors.directory
+              : entry.type === 'LINK'
+                ? colors.symlink
+                : colors.file;
+          return (
+            <Text key={text}>
+              {isSelected ? colors.selected('▸ ') : '  '}
+              {highlight(text, positions, pathWidth, color)}
+              {' '.repeat(Math.max(2, pathWidth - Math.min(text.length, pathWidth) + 2))}
+              {colors.muted(size.padStart(10))}
+              {stale ? colors.warning(right.slice(10)) : ''}
+            </Text>
+          );
+        })}
+      </Box>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.muted(footer.slice(0, width - 4))}
+        {' '.repeat(Math.max(1, width - Math.min(footer.length, width - 4) - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.bottomLeft}${borderLine}${borders.bottomRight}`)}
+      </Text>
+    </Box>
+  );
+};
@@ -25,8 +25,19 @@ export const HelpPanel: React.FC<HelpPanelProps> = ({ onClose }) => {
     { key: 'Space', description: 'Toggle selection on current item' },
     { key: 'a', description: 'Select all / Deselect all' },
     { key: 'd', description: 'Download selected (or current) items' },
-    { key: 'p', description: 'Preview file' },
+    { key: 'u', description: 'Upload local files/directories here' },
+    { key: 'x', description: 'Delete selected (or current) items' },
+    { key: 'R', description: 'Rename current item' },
+    { key: 'm', description: 'Move selected (or current) items' },
+    { key: 'N', description: 'New directory' },
+    { key: 'c', description: 'Change permissions (chmod)' },
+    { key: 'e', description: 'Edit file in $EDITOR, upload if changed' },
+    { key: 'p', description: 'Preview file (pager; x hex dump, p pretty-print, t CSV table)' },
+    { key: 'T', description: 'Tail file and follow new lines (F pauses)' },
+    { key: 'A', description: 'List archive contents (zip, tar, tar.gz)' },
     { key: '/', description: 'Search files' },
+    { key: 'Ctrl-P', description: 'Fuzzy find in the remote index (Ctrl-B in it crawls the host)' },
+    { key: 't', description: 'Transfers (pause/resume/cancel/retry)' },
     { key: 'r', description: 'Refresh directory' },
     { key: '?/h', description: 'Show this help' },
     { key: 'PgDn', description: 'Next page' },
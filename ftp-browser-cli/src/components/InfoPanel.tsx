@@ -1,15 +1,19 @@
 /**
  * InfoPanel: always-visible inline panel showing selected item info.
- * Renders 3 rows: top border + full path + type/size/permissions/date.
+ * Renders 3 rows: top border + full path + type/size/permissions (with octal)/date,
+ * plus the verification result when the file was downloaded this session.
  */
 
 import React from 'react';
 import { Text } from 'ink';
 import type { InfoPanelProps } from '../types/index.js';
 import { borders, colors, getTerminalWidth } from '../utils/constants.js';
-import { formatFileSize, formatDate } from '../utils/format.js';
+import { formatFileSize, formatDate, formatOctalMode, parsePermissions } from '../utils/format.js';
+import { useUIStore } from '../store/uiSlice.js';
+import { verificationLabel } from './ProgressBar.js';
 
 export const InfoPanel: React.FC<InfoPanelProps> = ({ item, currentPath }) => {
+  const downloads = useUIStore((s) => s.downloads);
   const width = getTerminalWidth();
   const borderLine = borders.horizontal.repeat(width - 2);
   const innerWidth = width - 4; // 2 border chars + 2 space padding
@@ -53,15 +57,26 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ item, currentPath }) => {
   const parts: string[] = [item.type];
   parts.push(formatFileSize(item.size));
   if (item.permissions) {
-    parts.push(item.permissions);
+    const mode = parsePermissions(item.permissions);
+    parts.push(mode === null ? item.permissions : `${item.permissions} ${formatOctalMode(mode)}`);
   }
   parts.push(formatDate(item.date));
   if (item.target) {
     parts.push(`-> ${item.target}`);
   }
   const detailStr = parts.join('  ');
-  const detailDisplay = detailStr.length > innerWidth
-    ? detailStr.slice(0, innerWidth - 3) + '...'
+
+  // Latest verified download of this file (checksum or size)
+  const verification = [...downloads]
+    .reverse()
+    .find((d) => d.direction !== 'upload' && d.remotePath === fullPath && d.verification)?.verification;
+  const verifyText = verification ? verificationLabel(verification) : '';
+  // Visible width of the label (it carries color codes)
+  const verifyWidth = verifyText.replace(/\x1b\[[0-9;]*m/g, '').length + (verifyText ? 2 : 0);
+
+  const detailWidth = innerWidth - verifyWidth;
+  const detailDisplay = detailStr.length > detailWidth
+    ? detailStr.slice(0, detailWidth - 3) + '...'
     : detailStr;
   return (
     <>
@@ -80,7 +95,8 @@ export const InfoPanel: React.FC<InfoPanelProps> = ({ item, currentPath }) => {
         {colors.border(borders.vertical)}
         {' '}
         {colors.muted(detailDisplay)}
-        {' '.repeat(Math.max(0, innerWidth - detailDisplay.length))}
+        {verifyText ? `  ${verifyText}` : ''}
+        {' '.repeat(Math.max(0, innerWidth - detailDisplay.length - verifyWidth))}
         {' '}
         {colors.border(borders.vertical)}
       </Text>
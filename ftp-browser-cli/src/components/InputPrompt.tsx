@@ -10,15 +10,15 @@ import { colors } from '../utils/constants.js';
 export const InputPrompt: React.FC<InputPromptProps> = ({
   prompt,
   value,
+  mask,
   onChange,
   onSubmit,
   onCancel,
 }) => {
+  // Enter is handled by TextInput's onSubmit; only Escape needs a handler here
   useInput((input, key) => {
     if (key.escape) {
       onCancel();
-    } else if (key.return) {
-      onSubmit();
     }
   });
 
@@ -29,6 +29,7 @@ export const InputPrompt: React.FC<InputPromptProps> = ({
       </Text>
       <TextInput
         value={value}
+        mask={mask}
         onChange={onChange}
         onSubmit={onSubmit}
       />
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import Spinner from 'ink-spinner';
+import type { PermissionEditorProps } from '../types/index.js';
+import { borders, colors, getTerminalWidth } from '../utils/constants.js';
+import { formatOctalMode, parsePermissions } from '../utils/format.js';
+import { describeFailures, useFileOps } from '../hooks/useFileOps.js';
+
+const classes = ['User', 'Group', 'Other'];
+const flags = ['r', 'w', 'x'];
+
+/** Bit for class row (0-2) and flag column (0-2): user r = 0o400 ... other x = 0o001 */
+function bit(row: number, col: number): number {
+  return 1 << (8 - (row * 3 + col));
+}
+
+/**
+ * PermissionEditor: chmod for the current item or the checked set. Only the
+ * rwx bits are edited; each item keeps its setuid, setgid and sticky bits.
+ *
+ * Keys:
+ *   Up/Down, Left/Right  Move in the rwx grid
+ *   Space                Toggle the bit (or Recursive on its row)
+ *   r/w/x                Toggle that bit for the current class
+ *   0-7                  Type an octal mode (three digits)
+ *   Enter                Apply
+ *   Esc                  Cancel
+ */
+export const PermissionEditor: React.FC<PermissionEditorProps> = ({ op, onDone, onCancel }) => {
+  const ops = useFileOps();
+  const current = op.items.map((i) => parsePermissions(i.permissions));
+  const known = current.filter((m): m is number => m !== null);
+  const mixed = new Set(known).size > 1 || known.length < current.length;
+  const hasDirs = op.items.some((i) => i.type === 'DIR');
+
+  // Special bits come from the listing; where it shows no permissions they cannot be kept
+  const specialNote =
+    known.length < current.length
+      ? colors.warning('Some items list no permissions: their setuid, setgid and sticky bits are cleared')
+      : known.some((m) => (m & 0o7000) !== 0)
+        ? colors.muted('Setuid, setgid and sticky bits are kept')
+        : null;
+
+  const [mode, setMode] = useState((known[0] ?? 0o644) & 0o777);
+  const [row, setRow] = useState(0); // 0-2 classes, 3 octal, 4 recursive
+  const [col, setCol] = useState(0);
+  const [octal, setOctal] = useState(''); // digits typed so far
+  const [recursive, setRecursive] = useState(false);
+  const [running, setRunning] = useState(false);
+  const lastRow = hasDirs ? 4 : 3;
+
+  const apply = async () => {
+    setRunning(true);
+    let message: string | null = null;
+    try {
+      const result = await ops.chmodItems(op.items, op.dir, mode, recursive);
+      const total = result.done + result.failures.length;
+      if (result.failures.length > 0) {
+        message = total === 1 ? result.failures[0].error : describeFailures('Changed', total, result);
+      }
+    } catch (err) {
+      message = err instanceof Error ? err.message : String(err);
+    }
+    await ops.refresh();
+    onDone(message);
+  };
+
+  useInput((input, key) => {
+    if (running) return;
+    if (key.escape) {
+      onCancel();
+      return;
+    }
+    if (key.return) {
+      apply();
+      return;
+    }
+    if (input >= '0' && input <= '7') {
+      const next = octal.length >= 3 ? input : octal + input;
+      setRow(3);
+      if (next.length === 3) {
+        setMode(parseInt(next, 8));
+        setOctal('');
+      } else {
+        setOctal(next);
+      }
+      return;
+    }
+    if (key.backspace || key.delete) {
+      setOctal(octal.slice(0, -1));
+      return;
+    }
+    if (key.upArrow || input === 'k') {
+      setRow(Math.max(0, row - 1));
+      return;
+    }
+    if (key.downArrow || input === 'j') {
+      setRow(Math.min(lastRow, row + 1));
+      return;
+    }
+    if (key.leftArrow || input === 'h') {
+      setCol(Math.max(0, col - 1));
+      return;
+    }
+    if (key.rightArrow || input === 'l') {
+      setCol(Math.min(2, col + 1));
+      return;
+    }
+    if (input === ' ') {
+      if (row < 3) setMode(mode ^ bit(row, col));
+      else if (row === 4) setRecursive(!recursive);
+      return;
+    }
+    const flag = flags.indexOf(input);
+    if (flag >= 0 && row < 3) {
+      setCol(flag);
+      setMode(mode ^ bit(row, flag));
+    }
+  });
+
+  if (running) {
+    return (
+      <Box>
+        <Text>
+          <Spinner type="dots" /> {colors.info('Changing permissions...')}
+        </Text>
+      </Box>
+    );
+  }
+
+  const width = getTerminalWidth() - 10;
+  const borderLine = borders.horizontal.repeat(width - 2);
+  // Pad by visible width: content carries color codes
+  const line = (content: string) => (
+    <Text>
+      {colors.border(borders.vertical)} {content}
+      {' '.repeat(Math.max(1, width - content.replace(/\x1b\[[0-9;]*m/g, '').length - 3))}
+      {colors.border(borders.vertical)}
+    </Text>
+  );
+  const title = `Permissions: ${op.items.length === 1 ? op.items[0].name : `${op.items.length} items`}`.slice(0, width - 4);
+  const currentText =
+    known.length === 0
+      ? 'Current: unknown'
+      : mixed
+        ? 'Current: mixed'
+        : `Current: ${op.items[0].permissions} (${formatOctalMode(known[0])})`;
+  const marker = (r: number) => (r === row ? colors.selected('▸') : ' ');
+
+  return (
+    <Box flexDirection="column" alignItems="center">
+      <Box flexDirection="column">
+        <Text>{colors.border(`${borders.topLeft}${borderLine}${borders.topRight}`)}</Text>
+        {line(colors.highlight(title))}
+        <Text>{colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}</Text>
+        {line(colors.muted(currentText))}
+        {specialNote && line(specialNote)}
+        {line('')}
+        {line(`          ${flags.join('   ')}`)}
+        {classes.map((name, r) => {
+          const cells = flags.map((f, c) => {
+            const cell = `[${mode & bit(r, c) ? f : ' '}]`;
+            return r === row && c === col ? colors.selected(cell) : cell;
+          });
+          const text = `${marker(r)} ${name.padEnd(6)} ${cells.join(' ')}`;
+          return <React.Fragment key={name}>{line(text)}</React.Fragment>;
+        })}
+        {line(`${marker(3)} Octal  ${octal ? colors.warning(octal.padEnd(3, '_')) : formatOctalMode(mode)}`)}
+        {hasDirs && line(`${marker(4)} [${recursive ? 'x' : ' '}] Recursive (everything inside the directories)`)}
+        <Text>{colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}</Text>
+        {line(colors.muted('Arrows+Space or r/w/x toggle, 0-7 octal, Enter apply, Esc cancel'))}
+        <Text>{colors.border(`${borders.bottomLeft}${borderLine}${borders.bottomRight}`)}</Text>
+      </Box>
+    </Box>
+  );
+};
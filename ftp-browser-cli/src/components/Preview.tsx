@@ -1,32 +1,186 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Box, Text, useInput } from 'ink';
-import type { PreviewProps } from '../types/index.js';
-import { borders, colors, defaults, getTerminalWidth } from '../utils/constants.js';
+import Spinner from 'ink-spinner';
+import type { PreviewProps, SyntaxLanguage, TableLayout, TokenKind } from '../types/index.js';
+import { borders, colors, defaults, getTerminalHeight, getTerminalWidth } from '../utils/constants.js';
+import { formatFileSize } from '../utils/format.js';
+import { canPrettyPrint, highlightLine, languageFor, prettyPrint } from '../utils/syntax.js';
+import { formatRow, headerRule, isTableFile, splitRow, tableLayout } from '../utils/table.js';
+import { usePager } from '../hooks/usePager.js';
+
+const tokenColors: Record<TokenKind, (text: string) => string> = {
+  key: colors.syntaxKey,
+  string: colors.syntaxString,
+  number: colors.syntaxNumber,
+  keyword: colors.syntaxKeyword,
+  comment: colors.syntaxComment,
+  tag: colors.syntaxTag,
+  variable: colors.syntaxVariable,
+};
+
+const delimiterNames: Record<string, string> = { ',': 'comma', '\t': 'tab', ';': 'semicolon', '|': 'pipe' };
+
+/** Tabs to spaces (stops every 8 columns), other control characters to '.' */
+function displayText(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    if (ch === '\t') out += ' '.repeat(8 - (out.length % 8));
+    else out += ch < ' ' || ch === '\x7f' ? '.' : ch;
+  }
+  return out;
+}
+
+/** Columns from..to of a line, coloured when a language is given */
+function renderSlice(text: string, from: number, to: number, language: SyntaxLanguage | null): string {
+  if (!language) return text.slice(from, to);
+  // Tokenized from the start of the line so the visible part keeps its context
+  let out = '';
+  let col = 0;
+  for (const token of highlightLine(text.slice(0, to), language)) {
+    const end = col + token.text.length;
+    if (end > from) {
+      const piece = token.text.slice(Math.max(0, from - col), to - col);
+      out += token.kind ? tokenColors[token.kind](piece) : piece;
+    }
+    col = end;
+  }
+  return out;
+}
 
 /**
- * Preview component for displaying file content preview.
+ * Preview component: pager over the whole remote file, loaded in ranges.
+ * Opened from a content search match, it starts at that line and marks it.
+ *
+ * Keys:
+ *   Up/Down, k/j         Scroll one line
+ *   PgUp/PgDn, b/Space   Scroll one page
+ *   g / G                Top / end of file
+ *   Left/Right, h/l      Scroll sideways; 0 back to column 1
+ *   F                    Follow the end of the file (tail -f) / pause; not for archive entries
+ *                        or decompressed files
+ *   x                    Hex dump / text (binary files open as hex)
+ *   p                    Pretty-print / as is (JSON and XML)
+ *   t                    Table / text (CSV and TSV); Left/Right then move a column
+ *   r                    Retry after a failed read
+ *   Esc / q              Close
  */
-export const Preview: React.FC<PreviewProps> = ({
-  filePath,
-  content,
-  onClose,
-}) => {
+export const Preview: React.FC<PreviewProps> = ({ remotePath, size, tail = false, reader, jumpTo, onClose }) => {
+  const rows = Math.max(5, getTerminalHeight() - defaults.chromeRows);
+  const tableFile = isTableFile(remotePath);
+  const [tableOn, setTableOn] = useState(true);
+  // The sticky header and its rule take two of the rows
+  const pager = usePager(remotePath, size, rows - (tableFile && tableOn ? 2 : 0), tail, reader, jumpTo);
+  const [left, setLeft] = useState(0);
+  const [column, setColumn] = useState(0); // first column shown in the table
+  const layout = useRef<TableLayout | null>(null);
+  // Following polls the remote size, which says nothing about an archive entry or decompressed content
+  const followable = !reader && !pager.decompressed;
+  const language = languageFor(pager.contentName);
+  const prettyable = canPrettyPrint(language) && !pager.hex;
+  // Binary content shown as text is not highlighted
+  const highlight = pager.hex || pager.binary ? null : language;
+
+  // Taken from the start of the file once, so it stays when the window moves on
+  if (tableFile && !layout.current && pager.view?.start === 0 && pager.lines.length > 0) {
+    const sample = pager.lines.slice(0, defaults.tableSampleRows).map((l) => l.text);
+    layout.current = tableLayout(sample, pager.contentName, displayText);
+  }
+  const table = tableFile && tableOn && !pager.hex && !pager.binary ? layout.current : null;
+
+  const width = getTerminalWidth();
+  const borderLine = borders.horizontal.repeat(width - 2);
+  // Table rows are split before control characters are replaced (TSV tabs)
+  const visible = table
+    ? pager.visible.filter((l) => l.offset > 0) // the header line is drawn above
+    : pager.hex
+      ? pager.visible
+      : pager.visible.map((l) => ({ ...l, text: displayText(l.text) }));
+  const lastNumber = visible.length > 0 ? visible[visible.length - 1].number : null;
+  // Hex rows carry their offset instead of a line number
+  const gutter = pager.hex ? 0 : Math.max(4, String(lastNumber ?? '').length);
+  const textWidth = Math.max(10, width - 2 - (gutter > 0 ? gutter + 3 : 0)); // padding, gutter, " │ "
+  // The line a content search match opened
+  const gutterColor = (offset: number) => (offset === jumpTo ? colors.highlight : colors.muted);
+  const longest = visible.reduce((n, l) => Math.max(n, l.text.length), 0);
+
   useInput((input, key) => {
-    if (key.escape || key.return || key.upArrow || key.downArrow || key.leftArrow || key.rightArrow) {
-      onClose();
+    if (key.escape || input === 'q') onClose();
+    else if (key.upArrow || input === 'k') pager.scroll(-1);
+    else if (key.downArrow || input === 'j') pager.scroll(1);
+    else if (key.pageUp || input === 'b') pager.scroll(-rows);
+    else if (key.pageDown || input === ' ' || input === 'f') pager.scroll(rows);
+    else if (input === 'g') pager.toTop();
+    else if (input === 'G') pager.toEnd();
+    else if (input === 'F' && followable) pager.toggleFollow();
+    else if (input === 'x') {
+      pager.toggleHex();
+      setLeft(0);
+    } else if (input === 'p' && prettyable) {
+      pager.togglePretty((text) => prettyPrint(text, language!));
+      setLeft(0);
+    }
+    else if (input === 't' && tableFile) {
+      setTableOn(!tableOn);
+      setLeft(0);
+      setColumn(0);
+    } else if (table && (key.leftArrow || input === 'h')) setColumn(Math.max(0, column - 1));
+    else if (table && (key.rightArrow || input === 'l')) setColumn(Math.min(table.widths.length - 1, column + 1));
+    else if (key.leftArrow || input === 'h') setLeft(Math.max(0, left - defaults.pagerHorizontalStep));
+    else if (key.rightArrow || input === 'l') {
+      setLeft(Math.min(Math.max(0, longest - textWidth), left + defaults.pagerHorizontalStep));
+    } else if (input === '0') {
+      setLeft(0);
+      setColumn(0);
     }
+    else if (input === 'r' && pager.error) pager.retry();
   });
 
-  const width = getTerminalWidth();
-  const borderLine = borders.horizontal.repeat(width - 2);
-  
-  // Limit content to maxPreviewLines, truncate long lines
-  const maxLineWidth = width - 4; // 2 border chars + 2 padding
-  const lines = content.split('\n').slice(0, defaults.maxPreviewLines).map((line) =>
-    line.length > maxLineWidth ? line.slice(0, maxLineWidth - 3) + '...' : line
-  );
-  const displayContent = lines.join('\n');
-  const truncated = content.split('\n').length > defaults.maxPreviewLines;
+  const name = remotePath.split('/').pop() ?? remotePath;
+  const total = pager.win?.size ?? size;
+  const badges: string[] = [];
+  if (pager.decompressed) {
+    if (pager.win) {
+      // Output stops at defaults.maxPreviewBytes
+      const cut = pager.eof && (pager.win.size ?? 0) >= defaults.maxPreviewBytes;
+      badges.push(cut ? `gzip, first ${formatFileSize(defaults.maxPreviewBytes)} decompressed` : 'gzip, decompressed');
+    }
+  } else if (pager.compression) {
+    badges.push(`${pager.compression}, not decompressed`);
+  }
+  if (pager.hex) badges.push(pager.binary ? 'binary, hex' : 'hex');
+  else if (pager.binary) badges.push('binary, as text');
+  else if (pager.pretty) badges.push('pretty');
+  if (table) badges.push(`table, ${delimiterNames[table.delimiter]}-separated`);
+  const badge = badges.map((b) => ` [${b}]`).join('');
+  const sizeText = total !== null ? ` (${formatFileSize(total)})` : '';
+  const title = `${tail ? 'Tail' : 'Preview'}: ${name}${sizeText}${badge}`.slice(0, width - 4);
+
+  const first = visible[0];
+  const last = visible[visible.length - 1];
+  let position = '';
+  if (first && last) {
+    const lastLine = pager.lines[pager.lines.length - 1].number;
+    if (pager.hex) position = `Offset 0x${first.offset.toString(16)}`;
+    else if (first.number === null || last.number === null || lastLine === null) {
+      position = table ? 'Row numbers unknown' : 'Line numbers unknown';
+    } else if (table) {
+      // The header is line 1
+      position = `Rows ${first.number - 1}-${last.number - 1}${pager.eof ? ` of ${lastLine - 1}` : ''}`;
+    } else position = `Lines ${first.number}-${last.number}${pager.eof ? ` of ${lastLine}` : ''}`;
+    const extent = pager.view?.size ?? total; // the reformatted text when pretty-printed
+    const shownEnd = pager.top + visible.length < pager.lines.length ? pager.lines[pager.top + visible.length].offset : extent;
+    if (extent) position += `  ${Math.round(((shownEnd ?? 0) / extent) * 100)}%`;
+    if (table) position += `  Column ${column + 1} of ${table.widths.length}`;
+    else if (left > 0) position += `  Col ${left + 1}`;
+  }
+  if (pager.following) position = `Following  ${position}`;
+  else if (tail) position = `Paused  ${position}`;
+  const hint = `↑↓ PgUp/PgDn g/G ←→${followable ? ' F' : ''} x${prettyable ? ' p' : ''}${tableFile ? ' t' : ''} q`;
+  const room = Math.max(0, width - hint.length - 7);
+  const status = (
+    pager.error ? `${pager.error} (r: retry)` : pager.notice ?? (position || (pager.loading ? 'Loading...' : ''))
+  ).slice(0, room);
+  const statusWidth = status.length + (pager.loading && !pager.error ? 2 : 0); // spinner + space
 
   return (
     <Box flexDirection="column">
@@ -36,22 +190,45 @@ export const Preview: React.FC<PreviewProps> = ({
       <Text>
         {colors.border(borders.vertical)}
         {' '}
-        {colors.highlight(`Preview: ${filePath}`)}
-        {' '.repeat(Math.max(1, width - filePath.length - 11))}
+        {colors.highlight(title)}
+        {' '.repeat(Math.max(1, width - title.length - 3))}
         {colors.border(borders.vertical)}
       </Text>
       <Text>
         {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
       </Text>
       <Box flexDirection="column" paddingX={1}>
-        {displayContent.split('\n').map((line, index) => (
-          <Text key={index}>{line}</Text>
-        ))}
-        {truncated && (
-          <Text>
-            {colors.muted(`... (truncated, showing first ${defaults.maxPreviewLines} lines)`)}
-          </Text>
+        {table && (
+          <>
+            <Text>
+              {colors.muted(`${' '.repeat(gutter)} │ `)}
+              {colors.highlight(formatRow(table.header, table, column, textWidth - 1).text)}
+            </Text>
+            <Text>{colors.muted(`${'─'.repeat(gutter)}─┼─${headerRule(table, column, textWidth - 1)}`)}</Text>
+          </>
         )}
+        {table && visible.map((line) => {
+          const row = formatRow(splitRow(line.text, table.delimiter).map(displayText), table, column, textWidth - 1);
+          return (
+            <Text key={line.offset}>
+              {gutterColor(line.offset)(`${String(line.number === null ? '' : line.number - 1).padStart(gutter)} │ `)}
+              {row.text}
+              {row.more ? colors.muted('›') : ''}
+            </Text>
+          );
+        })}
+        {!table && visible.map((line) => {
+          const more = line.text.length > left + textWidth;
+          const shown = renderSlice(line.text, left, left + textWidth - (more ? 1 : 0), highlight);
+          return (
+            <Text key={line.offset}>
+              {gutter > 0 ? gutterColor(line.offset)(`${String(line.number ?? '').padStart(gutter)} │ `) : ''}
+              {shown}
+              {more ? colors.muted('›') : ''}
+            </Text>
+          );
+        })}
+        {visible.length === 0 && !pager.loading && !pager.error && <Text>{colors.muted(table ? '(no rows)' : '(empty file)')}</Text>}
       </Box>
       <Text>
         {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
@@ -59,8 +236,18 @@ export const Preview: React.FC<PreviewProps> = ({
       <Text>
         {colors.border(borders.vertical)}
         {' '}
-        {colors.muted('Press any key to close')}
-        {' '.repeat(Math.max(1, width - 25))}
+        {pager.error ? (
+          colors.error(status)
+        ) : pager.loading ? (
+          <Text>
+            <Spinner type="dots" /> {colors.muted(status)}
+          </Text>
+        ) : (
+          colors.muted(status)
+        )}
+        {' '.repeat(Math.max(1, width - 4 - statusWidth - hint.length))}
+        {colors.muted(hint)}
+        {' '}
         {colors.border(borders.vertical)}
       </Text>
       <Text>
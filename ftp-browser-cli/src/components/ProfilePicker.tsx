@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { ProfilePickerProps } from '../types/index.js';
+import { borders, colors, icons, getTerminalWidth } from '../utils/constants.js';
+
+/**
+ * ProfilePicker: start screen listing saved connection profiles.
+ * Shown when ftp-browser is run without a host.
+ */
+export const ProfilePicker: React.FC<ProfilePickerProps> = ({
+  profiles,
+  profilesPath,
+  error,
+  onSelect,
+  onCancel,
+}) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  useInput((input, key) => {
+    if (key.escape || input === 'q') {
+      onCancel();
+    } else if (key.return) {
+      if (profiles.length > 0) onSelect(profiles[selectedIndex]);
+    } else if (key.upArrow || input === 'k') {
+      if (profiles.length > 0) {
+        setSelectedIndex((prev) => (prev > 0 ? prev - 1 : profiles.length - 1));
+      }
+    } else if (key.downArrow || input === 'j') {
+      if (profiles.length > 0) {
+        setSelectedIndex((prev) => (prev < profiles.length - 1 ? prev + 1 : 0));
+      }
+    } else if (input >= '1' && input <= '9') {
+      const num = parseInt(input, 10) - 1;
+      if (num >= 0 && num < profiles.length) onSelect(profiles[num]);
+    }
+  });
+
+  const width = getTerminalWidth();
+  const borderLine = borders.horizontal.repeat(width - 2);
+  const title = 'Connection Profiles';
+  const footer = profiles.length > 0
+    ? 'Enter/1-9 to connect, q/Esc to quit'
+    : 'Press q or Esc to quit';
+
+  return (
+    <Box flexDirection="column">
+      <Text>
+        {colors.border(`${borders.topLeft}${borderLine}${borders.topRight}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.highlight(title)}
+        {' '.repeat(Math.max(1, width - title.length - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Box flexDirection="column" paddingX={1} paddingY={1}>
+        {error && (
+          <Text>
+            {icons.error} {colors.error(error)}
+          </Text>
+        )}
+        {profiles.length === 0 && !error && (
+          <>
+            <Text>{colors.muted(`No profiles found in ${profilesPath}`)}</Text>
+            <Text>{colors.muted('Pass a host on the command line, or create the file, e.g.:')}</Text>
+            <Text>{colors.muted('  { "build": { "host": "ftp.example.com", "user": "admin", "remotePath": "/builds" } }')}</Text>
+          </>
+        )}
+        {profiles.map((p, index) => {
+          const isSelected = index === selectedIndex;
+          const protocol = p.protocol ?? 'ftp';
+          const userPart = p.user ? `${p.user}@` : '';
+          const portPart = p.port ? `:${p.port}` : '';
+          const target = `${protocol}://${userPart}${p.host}${portPart}${p.remotePath ?? ''}`;
+          const line = `[${index + 1}] ${p.name.padEnd(16)} ${target}`;
+          return (
+            <Text key={p.name}>
+              {isSelected ? colors.selected(`▸ ${line}`) : `  ${line}`}
+            </Text>
+          );
+        })}
+      </Box>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.muted(footer)}
+        {' '.repeat(Math.max(1, width - footer.length - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.bottomLeft}${borderLine}${borders.bottomRight}`)}
+      </Text>
+    </Box>
+  );
+};
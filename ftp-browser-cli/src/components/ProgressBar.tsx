@@ -1,18 +1,47 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Box, Text } from 'ink';
-import type { ProgressBarProps } from '../types/index.js';
+import type { ProgressBarProps, VerifyResult } from '../types/index.js';
 import { icons, colors } from '../utils/constants.js';
-import { formatSpeed, formatTime } from '../utils/format.js';
+import { formatSpeed, formatTime, formatVerifyMethod } from '../utils/format.js';
+
+/** Short, colored verification outcome for a finished download */
+export function verificationLabel(v: VerifyResult | undefined): string {
+  if (!v) return '';
+  const method = formatVerifyMethod(v.method);
+  switch (v.status) {
+    case 'checking':
+      return colors.info('Verifying...');
+    case 'ok':
+      return colors.success(`✓ ${method}`);
+    case 'mismatch':
+      return colors.error(`${method} MISMATCH`);
+    default:
+      return colors.warning('Unverified');
+  }
+}
 
 /**
- * Compact single-line progress bar for downloads.
+ * Compact single-line progress bar for downloads and uploads.
  *
  * Formats:
  *   Downloading: ⬇️  filename.bin  [████████░░░░░░░░░░░░]  45%  1.2 MB/s  ETA: 2m 30s
- *   Completed:   ✅  filename.bin  Done
+ *   Uploading:   ⬆️  filename.bin  [████████░░░░░░░░░░░░]  45%  1.2 MB/s  ETA: 2m 30s
+ *   Completed:   ✅  filename.bin  Done  ✓ SHA-256     (or "size MISMATCH", "Unverified")
  *   Failed:      ❌  filename.bin  Download failed
+ *   Skipped:     ⚠️  filename.bin  Skipped (local file exists)
+ *   Paused:      ⚠️  filename.bin  [████░░░░░░░░░░░░░░░░]  20%  Paused
+ *   Retrying:    ⬇️  filename.bin  [████░░░░░░░░░░░░░░░░]  20%  Retry 2/4 in 3s: read ECONNRESET
  */
 export const ProgressBar: React.FC<ProgressBarProps> = ({ progress }) => {
+  const nextAt = progress.status === 'pending' ? progress.retry?.nextAt : undefined;
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    // Tick the retry countdown; nothing else updates a waiting row
+    if (!nextAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [nextAt]);
+
   const maxNameLen = 30;
   const displayName =
     progress.filename.length > maxNameLen
@@ -23,14 +52,30 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress }) => {
     return (
       <Box>
         <Text>
-          {icons.success}  {displayName}  {colors.success('Done')}
+          {progress.verification?.status === 'mismatch' ? icons.warning : icons.success}  {displayName}  {colors.success('Done')}
+          {progress.verification ? `  ${verificationLabel(progress.verification)}` : ''}
+        </Text>
+      </Box>
+    );
+  }
+
+  const isUpload = progress.direction === 'upload';
+
+  if (progress.status === 'skipped') {
+    return (
+      <Box>
+        <Text>
+          {icons.warning}  {displayName}  {colors.muted('Skipped (local file exists)')}
         </Text>
       </Box>
     );
   }
 
   if (progress.status === 'failed' || progress.status === 'cancelled') {
-    const reason = progress.error || 'Download failed';
+    const reason =
+      progress.status === 'cancelled'
+        ? 'Cancelled'
+        : progress.error || (isUpload ? 'Upload failed' : 'Download failed');
     return (
       <Box>
         <Text>
@@ -40,6 +85,18 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress }) => {
     );
   }
 
+  // Waiting out a retry backoff, or running a retry attempt
+  const retry = progress.retry;
+  const retryText = retry && nextAt
+    ? colors.warning(
+        `Retry ${retry.attempt}/${retry.maxAttempts} in ${Math.max(0, Math.ceil((nextAt - now) / 1000))}s` +
+          (progress.error ? `: ${progress.error}` : '')
+      )
+    : undefined;
+  const attemptText = retry && !retry.nextAt && progress.status === 'downloading'
+    ? colors.muted(`(attempt ${retry.attempt}/${retry.maxAttempts})`)
+    : '';
+
   // Active download — show bar + percentage + speed + ETA
   const percentage =
     progress.totalSize > 0
@@ -51,9 +108,15 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress }) => {
   const empty = barWidth - filled;
   const bar = `${'█'.repeat(filled)}${'░'.repeat(empty)}`;
 
-  const speedText = progress.speed > 0 ? formatSpeed(progress.speed) : '';
+  const speedText = progress.verification?.status === 'checking'
+    ? verificationLabel(progress.verification)
+    : progress.status === 'paused'
+      ? 'Paused'
+      : progress.status === 'pending'
+        ? retryText ?? 'Queued'
+        : progress.speed > 0 ? formatSpeed(progress.speed) : '';
   const etaText = progress.eta > 0 ? `ETA:${formatTime(progress.eta)}` : '';
-  const statusIcon = progress.status === 'paused' ? icons.warning : icons.download;
+  const statusIcon = progress.status === 'paused' ? icons.warning : isUpload ? icons.upload : icons.download;
 
   return (
     <Box>
@@ -61,6 +124,7 @@ export const ProgressBar: React.FC<ProgressBarProps> = ({ progress }) => {
         {statusIcon}  {displayName}  {bar}  {`${percentage}%`.padStart(4)}
         {speedText ? `  ${speedText}` : ''}
         {etaText ? `  ${etaText}` : ''}
+        {attemptText ? `  ${attemptText}` : ''}
       </Text>
     </Box>
   );
@@ -1,11 +1,54 @@
 import React from 'react';
 import { Box, Text, useInput } from 'ink';
 import TextInput from 'ink-text-input';
-import type { SearchBoxProps } from '../types/index.js';
+import type { SearchBoxProps, SearchLimits, SearchProgress } from '../types/index.js';
 import { icons, colors, statusMessages } from '../utils/constants.js';
+import { formatTime } from '../utils/format.js';
+
+const SYNTAX_HINT = 'name  *.log  /^build-\\d+/  type:dir  size:>100M  modified:<7d  ext:tar.gz  case:yes  grep:text';
+
+const LIMITS_HINT = 'depth:8 limit:5000 timeout:5m exclude:build|none';
+
+const directories = (n: number) => `${n} director${n === 1 ? 'y' : 'ies'}`;
+
+const duration = (ms: number) => formatTime(Math.ceil(ms / 1000));
+
+/** Directories scanned and queued, then the directory being listed */
+function progressLine(progress: SearchProgress): string {
+  const current = progress.current ? `  ${progress.current}` : '';
+  return `${statusMessages.searching} ${directories(progress.scanned)} scanned, ${progress.queued} queued${current}`;
+}
+
+/** How the search ended, naming the limit that stopped it and the query word raising it */
+function doneLine({ scanned, queued, excluded, beyondDepth, stoppedBy }: SearchProgress): string {
+  const skipped = excluded > 0 ? `, ${excluded} excluded` : '';
+  const cut = `scanned ${directories(scanned)}${queued > 0 ? `, ${queued} not searched` : ''}${skipped}`;
+  switch (stoppedBy?.limit) {
+    case 'results':
+      return `Stopped at the ${stoppedBy.value} result limit (limit:N); ${cut}`;
+    case 'timeout':
+      return `Stopped by the ${duration(stoppedBy.value)} timeout (timeout:5m); ${cut}`;
+    case 'depth':
+      return (
+        `Scanned ${directories(scanned)}; ${beyondDepth} below the depth limit of ${stoppedBy.value} ` +
+        `not searched (depth:N)${skipped}`
+      );
+    default:
+      return `Scanned ${directories(scanned)}${skipped}`;
+  }
+}
+
+/** The configured limits and how to change them for one search */
+function limitsLine({ maxDepth, maxResults, timeoutMs, exclude }: SearchLimits): string {
+  const timeout = timeoutMs > 0 ? `${duration(timeoutMs)} timeout` : 'no timeout';
+  const skipped = exclude.length > 0 ? `excluding ${exclude.join(', ')}` : 'nothing excluded';
+  return `depth ${maxDepth}, ${maxResults} results, ${timeout}, ${skipped}  (${LIMITS_HINT})`;
+}
 
 /**
  * SearchBox component for search input with active state handling.
+ * Shows the query syntax and limits while empty, the parse error of a bad
+ * query, the progress of a running search and which limit stopped the last one.
  */
 export const SearchBox: React.FC<SearchBoxProps> = ({
   isActive,
@@ -14,6 +57,9 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
   onCancel,
   isSearching = false,
   inputFocused,
+  error,
+  progress,
+  limits,
 }) => {
   useInput((input, key) => {
     if (!isActive) return;
@@ -43,11 +89,29 @@ export const SearchBox: React.FC<SearchBoxProps> = ({
       </Box>
       {isSearching && (
         <Box>
-          <Text>
-            {colors.muted(statusMessages.searching)}
+          <Text wrap="truncate-end">
+            {colors.muted(progress ? progressLine(progress) : statusMessages.searching)}
           </Text>
         </Box>
       )}
+      {!isSearching && !error && progress && (
+        <Box>
+          <Text wrap="truncate-end">
+            {progress.stoppedBy ? colors.warning(doneLine(progress)) : colors.muted(doneLine(progress))}
+          </Text>
+        </Box>
+      )}
+      {!isSearching && error && (
+        <Box>
+          <Text>{colors.error(error)}</Text>
+        </Box>
+      )}
+      {!query && (
+        <Box flexDirection="column">
+          <Text>{colors.muted(SYNTAX_HINT)}</Text>
+          {limits && <Text wrap="truncate-end">{colors.muted(limitsLine(limits))}</Text>}
+        </Box>
+      )}
     </Box>
   );
 };
@@ -30,16 +30,24 @@ export const StatusBar: React.FC<StatusBarProps> = ({
   // Build shortcuts text — use shorter labels
   const shortcuts =
     mode === 'browse'
-      ? '[Space]Sel [d]DL [p]Prev [?]Help'
+      ? '[Space]Sel [d]DL [u]UL [x]Del [p]Prev [?]Help'
       : mode === 'search'
         ? searchInputFocused
           ? '[↑↓]Nav [Enter]Select [Esc]Cancel'
           : '[Tab]Edit [Space]Sel [d]DL [Esc]Exit'
         : mode === 'preview'
-          ? '[Esc]Close'
-          : mode === 'help'
+          ? '[↑↓/PgUp/PgDn]Scroll [g/G]Top/End [Esc]Close'
+          : mode === 'archive'
+            ? '[p]Preview [d]Extract [Esc]Close'
+            : mode === 'finder'
+            ? '[Enter]Go to [^B]Crawl [Esc]Close'
+            : mode === 'help' || mode === 'transfers'
             ? '[Esc]Close'
-            : '[Esc]Cancel';
+            : mode === 'upload'
+              ? '[Enter]Upload [Esc]Cancel'
+              : mode === 'fileop'
+                ? '[Enter]OK [Esc]Cancel'
+                : '[Esc]Cancel';
 
   // Show mode if not browse
   const modeText = mode !== 'browse' ? `[${mode.toUpperCase()}] ` : '';
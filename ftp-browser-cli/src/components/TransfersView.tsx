@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import type { DownloadProgress, TransfersViewProps } from '../types/index.js';
+import { ProgressBar } from './ProgressBar.js';
+import { Modal } from './Modal.js';
+import { borders, colors, getTerminalWidth } from '../utils/constants.js';
+import { formatFileSize, formatSpeed } from '../utils/format.js';
+import { downloadManager } from '../services/downloadManager.js';
+import { useUIStore } from '../store/uiSlice.js';
+
+const statusOrder: Record<DownloadProgress['status'], number> = {
+  downloading: 0,
+  pending: 1,
+  paused: 2,
+  failed: 3,
+  cancelled: 4,
+  skipped: 5,
+  completed: 6,
+};
+
+/**
+ * Orders transfers for display: active first, then the pending queue in
+ * start order, then paused, failed, cancelled, skipped and completed.
+ */
+function orderTransfers(downloads: DownloadProgress[], queue: string[]): DownloadProgress[] {
+  const queuePos = new Map(queue.map((id, i) => [id, i]));
+  return [...downloads].sort((a, b) => {
+    const byStatus = statusOrder[a.status] - statusOrder[b.status];
+    if (byStatus !== 0) return byStatus;
+    if (a.status === 'pending') return (queuePos.get(a.id) ?? 0) - (queuePos.get(b.id) ?? 0);
+    return 0;
+  });
+}
+
+/**
+ * TransfersView: full-screen list of all transfers with per-item controls.
+ *
+ * Keys:
+ *   Up/k Down/j   Move cursor
+ *   Space/p       Pause / resume
+ *   x             Cancel
+ *   r             Retry (failed/cancelled)
+ *   +/-           Move a queued item up/down the queue
+ *   c             Clear completed, skipped and cancelled
+ *   Enter         Show full error (failed)
+ *   Esc/q/t       Close
+ */
+export const TransfersView: React.FC<TransfersViewProps> = ({ downloads, queue, onClose }) => {
+  const itemsPerPage = useUIStore((s) => s.itemsPerPage);
+  const conflicts = useUIStore((s) => s.downloadConflicts.length); // asked once this view closes
+  // The cursor follows its transfer as rows reorder; its last position is the fallback once the row is gone
+  const [cursor, setCursor] = useState<{ id: string | null; index: number }>({ id: null, index: 0 });
+  const [errorItem, setErrorItem] = useState<DownloadProgress | null>(null);
+
+  const rows = orderTransfers(downloads, queue);
+  const found = cursor.id === null ? -1 : rows.findIndex((d) => d.id === cursor.id);
+  const index = found >= 0 ? found : Math.min(cursor.index, Math.max(0, rows.length - 1));
+  const current = rows[index] ?? null;
+  const moveTo = (i: number) => setCursor({ id: rows[i]?.id ?? null, index: i });
+
+  useInput((input, key) => {
+    if (errorItem) return; // Modal owns the keyboard
+    if (key.escape || input === 'q' || input === 't') {
+      onClose();
+      return;
+    }
+    if (key.upArrow || input === 'k') {
+      moveTo(Math.max(0, index - 1));
+      return;
+    }
+    if (key.downArrow || input === 'j') {
+      moveTo(Math.min(rows.length - 1, index + 1));
+      return;
+    }
+    if (input === 'c') {
+      downloadManager.clearFinished();
+      return;
+    }
+    if (!current) return;
+    if (input === ' ' || input === 'p') {
+      if (current.status === 'paused') downloadManager.resumeDownload(current.id);
+      else downloadManager.pauseDownload(current.id);
+      return;
+    }
+    if (input === 'x') {
+      downloadManager.cancelDownload(current.id);
+      return;
+    }
+    if (input === 'r') {
+      downloadManager.retryDownload(current.id);
+      return;
+    }
+    if (input === '+' || input === '-') {
+      // The cursor stays on the item, so it moves along with it
+      downloadManager.moveInQueue(current.id, input === '+' ? -1 : 1);
+      return;
+    }
+    if (key.return && current.status === 'failed') {
+      setErrorItem(current);
+    }
+  });
+
+  const width = getTerminalWidth();
+  const borderLine = borders.horizontal.repeat(width - 2);
+
+  const active = downloads.filter((d) => d.status === 'downloading');
+  const throughput = active.reduce((sum, d) => sum + d.speed, 0);
+  const unfinished = downloads.filter(
+    (d) => d.status === 'downloading' || d.status === 'pending' || d.status === 'paused'
+  );
+  const remainingBytes = unfinished.reduce(
+    (sum, d) => sum + (d.totalSize > 0 ? Math.max(0, d.totalSize - d.downloaded) : 0),
+    0
+  );
+  const unknownSize = unfinished.filter((d) => d.totalSize <= 0).length;
+  const count = (st: DownloadProgress['status']) => downloads.filter((d) => d.status === st).length;
+
+  const title = 'Transfers';
+  const summary =
+    `${formatSpeed(throughput)}  Remaining: ${formatFileSize(remainingBytes)}` +
+    (unknownSize > 0 ? ` (+${unknownSize} not sized yet)` : '') +
+    `  |  ${count('downloading')} active  ${count('pending')} queued  ${count('paused')} paused` +
+    `  ${count('failed')} failed  ${count('completed')} done` +
+    (count('skipped') > 0 ? `  ${count('skipped')} skipped` : '') +
+    (conflicts > 0 ? `  ${conflicts} waiting for a conflict choice (close to answer)` : '');
+  const footer = '[Space]Pause/Resume [x]Cancel [r]Retry [+/-]Priority [c]Clear [Enter]Error [Esc]Close';
+
+  // Keep the cursor row inside the visible window
+  const pageStart = Math.max(0, Math.min(index - Math.floor(itemsPerPage / 2), rows.length - itemsPerPage));
+  const visible = rows.slice(pageStart, pageStart + itemsPerPage);
+
+  if (errorItem) {
+    return (
+      <Modal
+        title={`Transfer failed: ${errorItem.filename}`}
+        message={
+          (errorItem.direction === 'upload'
+            ? `${errorItem.localPath}\n-> ${errorItem.remotePath}`
+            : `${errorItem.remotePath}\n-> ${errorItem.localPath}`) +
+          `\n\n${errorItem.error ?? 'Unknown error'}`
+        }
+        options={['Retry', 'Close']}
+        onSelect={(option) => {
+          if (option === 'Retry') downloadManager.retryDownload(errorItem.id);
+          setErrorItem(null);
+        }}
+        onCancel={() => setErrorItem(null)}
+      />
+    );
+  }
+
+  return (
+    <Box flexDirection="column">
+      <Text>
+        {colors.border(`${borders.topLeft}${borderLine}${borders.topRight}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.highlight(title)}
+        {' '.repeat(Math.max(1, width - title.length - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.info(summary.slice(0, width - 4))}
+        {' '.repeat(Math.max(1, width - Math.min(summary.length, width - 4) - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Box flexDirection="column" paddingX={1}>
+        {rows.length === 0 && <Text>{colors.muted('No transfers')}</Text>}
+        {visible.map((d) => {
+          const isSelected = d.id === current?.id;
+          const pos = d.status === 'pending' ? queue.indexOf(d.id) : -1;
+          return (
+            <Box key={d.id}>
+              <Box width={2}>
+                <Text>{isSelected ? colors.selected('▸') : ' '}</Text>
+              </Box>
+              <Box width={5}>
+                <Text>{colors.muted(pos >= 0 ? `#${pos + 1}` : '')}</Text>
+              </Box>
+              <ProgressBar progress={d} />
+            </Box>
+          );
+        })}
+      </Box>
+      <Text>
+        {colors.border(`${borders.leftT}${borderLine}${borders.rightT}`)}
+      </Text>
+      <Text>
+        {colors.border(borders.vertical)}
+        {' '}
+        {colors.muted(footer.slice(0, width - 4))}
+        {' '.repeat(Math.max(1, width - Math.min(footer.length, width - 4) - 3))}
+        {colors.border(borders.vertical)}
+      </Text>
+      <Text>
+        {colors.border(`${borders.bottomLeft}${borderLine}${borders.bottomRight}`)}
+      </Text>
+    </Box>
+  );
+};
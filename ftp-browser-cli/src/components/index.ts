@@ -8,7 +8,14 @@ export { InputPrompt } from './InputPrompt.js';
 export { SearchBox } from './SearchBox.js';
 export { Preview } from './Preview.js';
 export { ProgressBar } from './ProgressBar.js';
+export { TransfersView } from './TransfersView.js';
+export { ArchiveView } from './ArchiveView.js';
+export { FuzzyFinder } from './FuzzyFinder.js';
 export { Modal } from './Modal.js';
+export { FileOpDialog } from './FileOpDialog.js';
+export { PermissionEditor } from './PermissionEditor.js';
+export { EditSession } from './EditSession.js';
 export { HelpPanel } from './HelpPanel.js';
 export { InfoPanel } from './InfoPanel.js';
+export { ProfilePicker } from './ProfilePicker.js';
 export { App } from './App.js';
@@ -2,4 +2,9 @@ export { useKeyboard } from './useKeyboard.js';
 export { useNavigation } from './useNavigation.js';
 export { useSearch } from './useSearch.js';
 export { useDownload } from './useDownload.js';
+export { useUpload } from './useUpload.js';
+export { useFileOps } from './useFileOps.js';
+export { useEditFile } from './useEditFile.js';
+export { useArchive } from './useArchive.js';
+export { useRemoteIndex } from './useRemoteIndex.js';
 export { useFtp } from './useFtp.js';
@@ -0,0 +1,115 @@
+/**
+ * Archive inspector: lists a remote archive once and previews or extracts
+ * single entries. A tar listing streams the whole archive, so entries show
+ * up while it is read; closing the inspector stops that read.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { basename, extname, join } from 'path';
+import type { ArchiveEntry, IRemoteService, RangeReader } from '../types/index.js';
+import { getFtpService } from '../store/ftpSlice.js';
+import { archiveFormat, extractArchiveEntry, listArchive, readArchiveEntry } from '../services/archive.js';
+import { pathExists } from '../services/fileSystem.js';
+import { defaults } from '../utils/constants.js';
+
+const LISTING_REFRESH_MS = 250;
+
+function service(): IRemoteService {
+  const ftp = getFtpService();
+  if (!ftp) throw new Error('Not connected to FTP server');
+  return ftp;
+}
+
+/** First free "name (n).ext" next to path */
+async function availablePath(path: string): Promise<string> {
+  const ext = extname(path);
+  const stem = path.slice(0, path.length - ext.length);
+  for (let n = 1; ; n++) {
+    const candidate = `${stem} (${n})${ext}`;
+    if (!(await pathExists(candidate))) return candidate;
+  }
+}
+
+export function useArchive(remotePath: string, listedSize: number | null, downloadDir: string) {
+  const format = archiveFormat(remotePath);
+  const [entries, setEntries] = useState<ArchiveEntry[]>([]);
+  const [listing, setListing] = useState(true);
+  const [bytesRead, setBytesRead] = useState(0);
+  const [size, setSize] = useState(listedSize);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const found: ArchiveEntry[] = [];
+    let read = 0;
+    // Entries arrive one by one while a tar streams; the view catches up periodically
+    const flush = () => {
+      setEntries([...found]);
+      setBytesRead(read);
+    };
+    const timer = setInterval(flush, LISTING_REFRESH_MS);
+    (async () => {
+      if (!format) throw new Error(`Not a supported archive: ${basename(remotePath)}`);
+      const ftp = service();
+      const total = listedSize ?? (await ftp.size(remotePath));
+      setSize(total);
+      await listArchive(ftp, remotePath, format, total, (e) => found.push(e), (n) => (read = n), controller.signal);
+    })()
+      .catch((err) => {
+        if (!controller.signal.aborted) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        clearInterval(timer);
+        if (controller.signal.aborted) return;
+        flush();
+        setListing(false);
+      });
+    return () => {
+      controller.abort();
+      clearInterval(timer);
+    };
+  }, [remotePath]);
+
+  /** Preview source for an entry: its first defaults.archivePreviewBytes, read once */
+  const entryReader = useCallback(
+    (entry: ArchiveEntry): RangeReader => {
+      let data: Promise<Buffer> | null = null;
+      return (offset, length) => {
+        data ??= readArchiveEntry(service(), remotePath, format!, entry, defaults.archivePreviewBytes).catch(
+          (err) => {
+            data = null; // let a retry read again
+            throw err;
+          }
+        );
+        return data.then((buf) => buf.subarray(offset, offset + length));
+      };
+    },
+    [remotePath, format]
+  );
+
+  /** Local path an entry is extracted to, and whether a file is already there */
+  const extractTarget = useCallback(
+    async (entry: ArchiveEntry): Promise<{ localPath: string; exists: boolean }> => {
+      const localPath = join(downloadDir, basename(entry.name));
+      return { localPath, exists: await pathExists(localPath) };
+    },
+    [downloadDir]
+  );
+
+  /** Extracts to localPath, or next to it when keepBoth is set; resolves to the path written */
+  const extract = useCallback(
+    async (
+      entry: ArchiveEntry,
+      localPath: string,
+      keepBoth: boolean,
+      onProgress?: (bytesRead: number) => void
+    ): Promise<string> => {
+      const target = keepBoth ? await availablePath(localPath) : localPath;
+      await extractArchiveEntry(service(), remotePath, format!, entry, target, onProgress);
+      return target;
+    },
+    [remotePath, format]
+  );
+
+  return { format, entries, listing, bytesRead, size, error, entryReader, extractTarget, extract };
+}
@@ -1,127 +1,63 @@
 /**
- * Download: add file/dir to queue, sync progress to UI store, cancel.
- * Uses separate FTP connections for downloads to avoid blocking browsing.
+ * Download: queue files/directories on the download manager, pause/resume/cancel.
+ * The manager owns the transfer connections (bounded by its concurrency limit);
+ * progress reaches the UI store through its 'update' events. Items queued by one
+ * action share a batch, so "apply to all" covers exactly those files.
  */
 
 import { useCallback } from 'react';
-import { randomUUID } from 'crypto';
 import { join } from 'path';
-import { getFtpService } from '../store/ftpSlice.js';
-import { downloadWithSeparateClient, downloadDirectoryWithSeparateClient } from '../services/ftpClient.js';
+import { downloadManager } from '../services/downloadManager.js';
 import { useUIStore } from '../store/uiSlice.js';
-import type { FileItem } from '../types/index.js';
+import type { ConflictAction, FileItem } from '../types/index.js';
 
 export function useDownload(downloadDir: string) {
-  const addDownload = useUIStore((s) => s.addDownload);
-  const updateDownload = useUIStore((s) => s.updateDownload);
-  const removeDownload = useUIStore((s) => s.removeDownload);
   const downloads = useUIStore((s) => s.downloads);
 
   const addFileDownload = useCallback(
-    (item: FileItem, remoteBase: string) => {
+    (item: FileItem, remoteBase: string, batch?: string) => {
       if (item.type !== 'FILE') return;
-      const ftp = getFtpService();
-      if (!ftp) return;
       const remotePath = remoteBase === '/' ? `/${item.name}` : `${remoteBase}/${item.name}`;
       const localPath = join(downloadDir, item.name);
-      const id = randomUUID();
-      const progress = {
-        id,
-        filename: item.name,
-        remotePath,
-        localPath,
-        totalSize: 0,
-        downloaded: 0,
-        speed: 0,
-        eta: 0,
-        status: 'downloading' as const,
-      };
-      addDownload(progress);
-      downloadWithSeparateClient(ftp, remotePath, localPath, (p) =>
-        updateDownload(id, { ...p, id })
-      )
-        .then(() => {
-          updateDownload(id, { status: 'completed' });
-        })
-        .catch((err) => {
-          updateDownload(id, {
-            status: 'failed',
-            error: err instanceof Error ? err.message : 'Download failed',
-          });
-        });
+      downloadManager.addDownload(remotePath, localPath, batch);
     },
-    [addDownload, updateDownload, downloadDir]
+    [downloadDir]
   );
 
   const addDirectoryDownload = useCallback(
-    (item: FileItem, remoteBase: string, recursive: boolean) => {
+    (item: FileItem, remoteBase: string, recursive: boolean, batch?: string) => {
       if (item.type !== 'DIR') return;
-      const ftp = getFtpService();
-      if (!ftp) return;
       const remotePath = remoteBase === '/' ? `/${item.name}` : `${remoteBase}/${item.name}`;
       const localPath = join(downloadDir, item.name);
-      const id = randomUUID();
-      const progress = {
-        id,
-        filename: item.name,
-        remotePath,
-        localPath,
-        totalSize: 0,
-        downloaded: 0,
-        speed: 0,
-        eta: 0,
-        status: 'downloading' as const,
-      };
-      addDownload(progress);
-      if (recursive) {
-        downloadDirectoryWithSeparateClient(ftp, remotePath, localPath, (p) =>
-          updateDownload(id, { ...p, id })
-        )
-          .then(() => {
-            updateDownload(id, { status: 'completed' });
-          })
-          .catch((err) => {
-            updateDownload(id, {
-              status: 'failed',
-              error: err instanceof Error ? err.message : 'Directory download failed',
-            });
-          });
-      } else {
-        downloadWithSeparateClient(ftp, remotePath, localPath, (p) =>
-          updateDownload(id, { ...p, id })
-        )
-          .then(() => {
-            updateDownload(id, { status: 'completed' });
-          })
-          .catch((err) => {
-            updateDownload(id, {
-              status: 'failed',
-              error: err instanceof Error ? err.message : 'Download failed',
-            });
-          });
-      }
+      downloadManager.addDirectory(remotePath, localPath, recursive, batch).catch(() => {});
     },
-    [addDownload, updateDownload, downloadDir]
+    [downloadDir]
   );
 
+  /** Queues several items as one batch; search results carry their own path */
   const downloadSelected = useCallback(
     (items: FileItem[], remoteBase: string) => {
+      const batch = downloadManager.createBatch();
       for (const item of items) {
+        const base = item.path ?? remoteBase;
         if (item.type === 'FILE') {
-          addFileDownload(item, remoteBase);
+          addFileDownload(item, base, batch);
         } else if (item.type === 'DIR') {
-          addDirectoryDownload(item, remoteBase, true);
+          addDirectoryDownload(item, base, true, batch);
         }
       }
     },
     [addFileDownload, addDirectoryDownload]
   );
 
-  const cancelDownload = useCallback(
-    (id: string) => {
-      removeDownload(id);
-    },
-    [removeDownload]
+  const cancelDownload = useCallback((id: string) => downloadManager.cancelDownload(id), []);
+  const pauseDownload = useCallback((id: string) => downloadManager.pauseDownload(id), []);
+  const resumeDownload = useCallback((id: string) => downloadManager.resumeDownload(id), []);
+  const dismissDownload = useCallback((id: string) => downloadManager.removeDownload(id), []);
+  const resolveConflict = useCallback(
+    (id: string, action: ConflictAction, applyToAll: boolean) =>
+      downloadManager.resolveConflict(id, action, applyToAll),
+    []
   );
 
   return {
@@ -130,5 +66,9 @@ export function useDownload(downloadDir: string) {
     addDirectoryDownload,
     downloadSelected,
     cancelDownload,
+    pauseDownload,
+    resumeDownload,
+    dismissDownload,
+    resolveConflict,
   };
 }
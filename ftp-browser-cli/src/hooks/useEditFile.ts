@@ -0,0 +1,132 @@
+/**
+ * Edit a remote file in $VISUAL / $EDITOR: download to a temp directory, run
+ * the editor in the foreground, upload the result back if it changed. The
+ * remote size and modification time are kept from before the download so an
+ * upload can be refused when someone else changed the file meanwhile.
+ */
+
+import { useCallback } from 'react';
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FileItem, IRemoteService } from '../types/index.js';
+import { getFtpService } from '../store/ftpSlice.js';
+import { FileNotFoundError } from '../services/errors.js';
+import { defaults } from '../utils/constants.js';
+import { formatFileSize } from '../utils/format.js';
+import { itemPath } from './useFileOps.js';
+
+export interface EditedFile {
+  remotePath: string;
+  localPath: string;
+  tempDir: string;
+  original: Buffer;
+  remoteSize: number;
+  remoteTime: Date | null;
+}
+
+function service(): IRemoteService {
+  const ftp = getFtpService();
+  if (!ftp) throw new Error('Not connected to FTP server');
+  return ftp;
+}
+
+/**
+ * Runs a transfer on a fresh session. Transfers do not reconnect, and the
+ * browsing connection may have been dropped while the editor ran.
+ */
+async function withSession<T>(fn: (session: IRemoteService) => Promise<T>): Promise<T> {
+  const session = await service().openSession();
+  try {
+    return await fn(session);
+  } finally {
+    await session.disconnect();
+  }
+}
+
+/** Command from $VISUAL, else $EDITOR, else vi; may carry arguments ("code -w") */
+function editorCommand(): string[] {
+  const command = (process.env.VISUAL || process.env.EDITOR || defaults.editor).trim();
+  return command.split(/\s+/);
+}
+
+/**
+ * Runs the editor on the terminal and waits for it. spawnSync blocks the event
+ * loop, so Ink neither reads keys nor renders until the editor exits; raw mode
+ * and the cursor are handed back and forth around it. Returns a problem, or null.
+ */
+function runEditor(path: string): string | null {
+  const [cmd, ...args] = editorCommand();
+  const stdin = process.stdin;
+  const raw = stdin.isTTY && stdin.isRaw;
+  if (raw) stdin.setRawMode(false);
+  process.stdout.write('\x1b[2J\x1b[H\x1b[?25h');
+  const res = spawnSync(cmd, [...args, path], { stdio: 'inherit' });
+  if (raw) stdin.setRawMode(true);
+  process.stdout.write('\x1b[?25l\x1b[2J\x1b[H');
+  if (res.error) return `Cannot start editor "${cmd}": ${res.error.message}`;
+  if (res.status !== 0) {
+    return `Editor ${res.signal ? `stopped by ${res.signal}` : `exited with status ${res.status}`}; nothing uploaded`;
+  }
+  return null;
+}
+
+export function useEditFile() {
+  /** Downloads the file into a fresh temp directory (same name, so editors pick the syntax) */
+  const fetchFile = useCallback(async (item: FileItem, dir: string): Promise<EditedFile> => {
+    const ftp = service();
+    const remotePath = itemPath(item, dir);
+    const remoteSize = await ftp.size(remotePath);
+    if (remoteSize > defaults.maxEditBytes) {
+      throw new Error(`${item.name} is too large to edit (${formatFileSize(remoteSize)})`);
+    }
+    const remoteTime = await ftp.modifiedTime(remotePath);
+    const tempDir = await fs.mkdtemp(join(tmpdir(), 'ftp-browser-edit-'));
+    const localPath = join(tempDir, item.name);
+    try {
+      await withSession((session) => session.download(remotePath, localPath));
+      return { remotePath, localPath, tempDir, original: await fs.readFile(localPath), remoteSize, remoteTime };
+    } catch (err) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      throw err;
+    }
+  }, []);
+
+  /** Opens the editor; resolves whether the content changed */
+  const edit = useCallback(async (file: EditedFile): Promise<boolean> => {
+    const problem = runEditor(file.localPath);
+    if (problem) throw new Error(problem);
+    return !(await fs.readFile(file.localPath)).equals(file.original);
+  }, []);
+
+  /** How the remote file differs from when it was fetched, or null if it does not */
+  const remoteChange = useCallback(async (file: EditedFile): Promise<string | null> => {
+    const ftp = service();
+    let size: number;
+    try {
+      size = await ftp.size(file.remotePath);
+    } catch (err) {
+      if (err instanceof FileNotFoundError) return 'it was deleted';
+      throw err;
+    }
+    if (size !== file.remoteSize) {
+      return `its size changed from ${formatFileSize(file.remoteSize)} to ${formatFileSize(size)}`;
+    }
+    const time = await ftp.modifiedTime(file.remotePath);
+    if (file.remoteTime && time && time.getTime() !== file.remoteTime.getTime()) {
+      return `it was modified at ${time.toLocaleString()}`;
+    }
+    return null;
+  }, []);
+
+  const upload = useCallback(async (file: EditedFile): Promise<void> => {
+    await withSession((session) => session.upload(file.localPath, file.remotePath));
+  }, []);
+
+  const discard = useCallback(async (file: EditedFile): Promise<void> => {
+    await fs.rm(file.tempDir, { recursive: true, force: true });
+  }, []);
+
+  return { fetchFile, edit, remoteChange, upload, discard };
+}
@@ -0,0 +1,181 @@
+/**
+ * Remote file management on the browsing connection: delete, rename, move,
+ * mkdir and chmod. Items run one after another; a failure is recorded and
+ * the rest still run. The caller refreshes the listing afterwards.
+ */
+
+import { useCallback } from 'react';
+import type { FileItem, IRemoteService } from '../types/index.js';
+import { getFtpService, useFTPStore } from '../store/ftpSlice.js';
+import { useUIStore } from '../store/uiSlice.js';
+import { parsePermissions } from '../utils/format.js';
+import { joinPath, normalizePath } from '../utils/path.js';
+
+export interface FileOpFailure {
+  name: string;
+  error: string;
+}
+
+export interface FileOpResult {
+  done: number;
+  failures: FileOpFailure[];
+}
+
+/** What a rename/move does with a name that already exists at the target */
+export type ExistingTarget = 'replace' | 'skip';
+
+/** Entries of a remote directory by name, for "already exists" checks */
+export type DirEntries = Map<string, FileItem['type']>;
+
+/** Full remote path of a listed item (search results carry their own parent) */
+export function itemPath(item: FileItem, dir: string): string {
+  return joinPath(item.path ?? dir, item.name);
+}
+
+/** Absolute remote path for a prompt entry: absolute as typed, else under dir */
+export function resolveDir(dir: string, input: string): string {
+  const trimmed = input.trim();
+  return trimmed.startsWith('/') ? normalizePath(trimmed) : joinPath(dir, trimmed);
+}
+
+/** One-line outcome for the error line: "Deleted 3 of 5; failed: a.txt (Permission denied), ..." */
+export function describeFailures(verb: string, total: number, result: FileOpResult): string {
+  const shown = result.failures
+    .slice(0, 3)
+    .map((f) => `${f.name} (${f.error})`)
+    .join(', ');
+  const more = result.failures.length > 3 ? ` and ${result.failures.length - 3} more` : '';
+  return `${verb} ${result.done} of ${total}; failed: ${shown}${more}`;
+}
+
+function service(): IRemoteService {
+  const ftp = getFtpService();
+  if (!ftp) throw new Error('Not connected to FTP server');
+  return ftp;
+}
+
+async function runEach(items: FileItem[], op: (item: FileItem) => Promise<void>): Promise<FileOpResult> {
+  const result: FileOpResult = { done: 0, failures: [] };
+  for (const item of items) {
+    try {
+      await op(item);
+      result.done++;
+    } catch (err) {
+      result.failures.push({ name: item.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Renames from -> to. An existing file at the target is deleted first when
+ * replacing (servers disagree on whether RNTO overwrites); an existing
+ * directory is never replaced.
+ */
+async function place(
+  ftp: IRemoteService,
+  from: string,
+  to: string,
+  existingType: FileItem['type'] | undefined,
+  onExisting: ExistingTarget
+): Promise<void> {
+  if (existingType) {
+    if (onExisting === 'skip') return;
+    if (existingType === 'DIR') throw new Error('A directory with this name already exists');
+    await ftp.remove(to, false);
+  }
+  await ftp.rename(from, to);
+}
+
+export function useFileOps() {
+  const listEntries = useCallback(async (dir: string): Promise<DirEntries> => {
+    const files = await service().list(dir);
+    return new Map(files.map((f) => [f.name, f.type]));
+  }, []);
+
+  const deleteItems = useCallback(async (items: FileItem[], dir: string): Promise<FileOpResult> => {
+    const ftp = service();
+    // Links are removed themselves, never what they point to
+    return runEach(items, (item) => ftp.remove(itemPath(item, dir), item.type === 'DIR'));
+  }, []);
+
+  const renameItem = useCallback(
+    async (item: FileItem, dir: string, newName: string, existing: DirEntries, onExisting: ExistingTarget) => {
+      const ftp = service();
+      const to = joinPath(item.path ?? dir, newName);
+      return runEach([item], (i) => place(ftp, itemPath(i, dir), to, existing.get(newName), onExisting));
+    },
+    []
+  );
+
+  /** Moves items into dest (absolute); existing holds dest's entries */
+  const moveItems = useCallback(
+    async (items: FileItem[], dir: string, dest: string, existing: DirEntries, onExisting: ExistingTarget) => {
+      const ftp = service();
+      return runEach(items, async (item) => {
+        const from = itemPath(item, dir);
+        if (dest === from || dest.startsWith(`${from}/`)) throw new Error('Cannot move a directory into itself');
+        if (normalizePath(item.path ?? dir) === dest) return; // already there
+        await place(ftp, from, joinPath(dest, item.name), existing.get(item.name), onExisting);
+      });
+    },
+    []
+  );
+
+  /**
+   * Sets the rwx bits of mode on each item, keeping each item's own setuid,
+   * setgid and sticky bits; with recursive, also on everything below the
+   * directories (links below are skipped so the walk stays inside the tree).
+   * Every path counts on its own in the result.
+   */
+  const chmodItems = useCallback(
+    async (items: FileItem[], dir: string, mode: number, recursive: boolean): Promise<FileOpResult> => {
+      const ftp = service();
+      const result: FileOpResult = { done: 0, failures: [] };
+      const apply = async (path: string, label: string, item: FileItem): Promise<void> => {
+        const special = (parsePermissions(item.permissions) ?? 0) & 0o7000;
+        try {
+          await ftp.chmod(path, special | (mode & 0o777));
+          result.done++;
+        } catch (err) {
+          result.failures.push({ name: label, error: err instanceof Error ? err.message : String(err) });
+        }
+        if (!recursive || item.type !== 'DIR') return;
+        let children: FileItem[];
+        try {
+          children = await ftp.list(path);
+        } catch (err) {
+          result.failures.push({ name: `${label}/`, error: err instanceof Error ? err.message : String(err) });
+          return;
+        }
+        for (const child of children) {
+          if (child.type === 'LINK') continue;
+          await apply(joinPath(path, child.name), `${label}/${child.name}`, child);
+        }
+      };
+      for (const item of items) await apply(itemPath(item, dir), item.name, item);
+      return result;
+    },
+    []
+  );
+
+  const makeDirectory = useCallback(async (dir: string, name: string): Promise<FileOpResult> => {
+    const ftp = service();
+    const path = resolveDir(dir, name);
+    return runEach([{ type: 'DIR', name, size: null, date: null }], () => ftp.mkdir(path));
+  }, []);
+
+  /** Re-lists the current directory and keeps the cursor inside a shorter list */
+  const refresh = useCallback(async () => {
+    const { currentPath, listDirectory } = useFTPStore.getState();
+    await listDirectory(currentPath).catch(() => {});
+    const ui = useUIStore.getState();
+    const count = useFTPStore.getState().files.length;
+    if (count > 0 && ui.currentPage * ui.itemsPerPage + ui.selectedIndex >= count) {
+      ui.setCurrentPage(Math.floor((count - 1) / ui.itemsPerPage));
+      ui.setSelectedIndex((count - 1) % ui.itemsPerPage);
+    }
+  }, []);
+
+  return { listEntries, deleteItems, renameItem, moveItems, chmodItems, makeDirectory, refresh };
+}
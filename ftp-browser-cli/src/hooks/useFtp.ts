@@ -6,15 +6,15 @@ import { useEffect } from 'react';
 import { useFTPStore } from '../store/index.js';
 import type { FTPConfig } from '../types/index.js';
 
-export function useFtp(config: FTPConfig | null): void {
+export function useFtp(config: FTPConfig | null, startPath?: string): void {
   const connect = useFTPStore((s) => s.connect);
   const disconnect = useFTPStore((s) => s.disconnect);
 
   useEffect(() => {
     if (!config) return;
-    connect(config).catch(() => {});
+    connect(config, startPath).catch(() => {});
     return () => {
       disconnect().catch(() => {});
     };
-  }, [config?.host, config?.port, config?.user]);
+  }, [config?.protocol, config?.host, config?.port, config?.user]);
 }
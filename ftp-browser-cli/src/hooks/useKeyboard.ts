@@ -9,8 +9,18 @@
  *   Enter (FILE) Toggle selection
  *   Space        Toggle selection on current item
  *   d            Download selected items (or current if none selected)
+ *   u            Upload local files/directories into the current directory
+ *   x            Delete selected items (or current), after confirmation
+ *   R            Rename current item
+ *   m            Move selected items (or current) into another directory
+ *   N            Create a directory
+ *   c            Change permissions of selected items (or current)
+ *   e            Edit current file in $VISUAL / $EDITOR, upload it back if changed
  *   p            Preview current file
+ *   T            Tail current file (last 64KB, following new data)
  *   /            Start search
+ *   Ctrl-P       Fuzzy find in the remote index
+ *   t            Open transfers view
  *   r            Refresh directory
  *   ?/h          Show help
  *   PageDown     Next page
@@ -26,6 +36,7 @@
  *   Esc          Clear selection -> exit search
  *   (input mode) Arrow keys auto-switch to navigate mode
  *   (navigate)   Space/d/a/Enter/arrows work like browse mode
+ *   Enter        On a content search match: preview the file at that line
  */
 
 import { useInput } from 'ink';
@@ -38,10 +49,11 @@ import type { FileItem } from '../types/index.js';
 
 export function useKeyboard(opts: {
   downloadDir: string;
-  onPreview: (item: FileItem) => void;
+  onPreview: (item: FileItem, tail?: boolean) => void;
+  onArchive: (item: FileItem) => void;
   exit: () => void;
 }) {
-  const { downloadDir, onPreview, exit } = opts;
+  const { downloadDir, onPreview, onArchive, exit } = opts;
   const nav = useNavigation();
   const dl = useDownload(downloadDir);
 
@@ -58,7 +70,9 @@ export function useKeyboard(opts: {
   const checkedItems = useUIStore((s) => s.checkedItems);
   const checkAll = useUIStore((s) => s.checkAll);
   const searchInputFocused = useUIStore((s) => s.searchInputFocused);
+  const hasConflict = useUIStore((s) => s.downloadConflicts.length > 0);
   const setSearchInputFocused = useUIStore((s) => s.setSearchInputFocused);
+  const startFileOp = useUIStore((s) => s.startFileOp);
 
   const files = useFTPStore((s) => s.files);
   const loading = useFTPStore((s) => s.loading);
@@ -105,6 +119,12 @@ export function useKeyboard(opts: {
     ) => {
       if (loading) return;
 
+      // Ctrl-P: fuzzy finder (browse listing only); other Ctrl keys are not bound
+      if (key.ctrl) {
+        if (input === 'p' && mode === 'browse') setMode('finder');
+        return;
+      }
+
       // Quit
       if (input === 'q') {
         exit();
@@ -201,12 +221,7 @@ export function useKeyboard(opts: {
         if (checkedItems.size > 0) {
           const indices = Array.from(checkedItems).sort((a, b) => a - b);
           const items = indices.map((i) => displayItems[i]).filter(Boolean);
-          // Each search result carries its own path; use per-item path
-          for (const item of items) {
-            const base = item.path ?? currentPath;
-            if (item.type === 'FILE') dl.addFileDownload(item, base);
-            else if (item.type === 'DIR') dl.addDirectoryDownload(item, base, true);
-          }
+          dl.downloadSelected(items, currentPath);
           clearChecked();
         } else if (selectedItem) {
           const remoteBase = selectedItem.path ?? currentPath;
@@ -219,12 +234,65 @@ export function useKeyboard(opts: {
         return;
       }
 
+      // Upload into the current directory (not from search results)
+      if (input === 'u' && mode === 'browse') {
+        setMode('upload');
+        return;
+      }
+
+      // Remote file management (browse listing only): checked items, else the cursor item
+      if (mode === 'browse' && ['x', 'm', 'R', 'N', 'c'].includes(input)) {
+        const withPath = (item: FileItem): FileItem => ({ ...item, path: item.path ?? currentPath });
+        const checked = Array.from(checkedItems)
+          .sort((a, b) => a - b)
+          .map((i) => displayItems[i])
+          .filter(Boolean)
+          .map(withPath);
+        const current = selectedItem ? withPath(selectedItem) : null;
+        const targets = checked.length > 0 ? checked : current ? [current] : [];
+        if (input === 'N') {
+          startFileOp({ kind: 'mkdir', items: [], dir: currentPath });
+        } else if (input === 'R') {
+          // Rename acts on one item: the single checked one, else the cursor item
+          const one = checked.length === 1 ? checked[0] : current;
+          if (one) startFileOp({ kind: 'rename', items: [one], dir: currentPath });
+        } else if (targets.length > 0) {
+          const kind = input === 'm' ? 'move' : input === 'c' ? 'chmod' : 'delete';
+          startFileOp({ kind, items: targets, dir: currentPath });
+        }
+        return;
+      }
+
+      // Edit in $VISUAL / $EDITOR (browse listing only)
+      if (input === 'e' && mode === 'browse' && selectedItem?.type === 'FILE') {
+        startFileOp({ kind: 'edit', items: [{ ...selectedItem, path: selectedItem.path ?? currentPath }], dir: currentPath });
+        return;
+      }
+
       // Preview
       if (input === 'p' && selectedItem?.type === 'FILE') {
         onPreview(selectedItem);
         return;
       }
 
+      // Tail: preview from the end, following new data
+      if (input === 'T' && selectedItem?.type === 'FILE') {
+        onPreview(selectedItem, true);
+        return;
+      }
+
+      // Archive contents (zip, tar, tar.gz)
+      if (input === 'A' && selectedItem?.type === 'FILE') {
+        onArchive(selectedItem);
+        return;
+      }
+
+      // Transfers view
+      if (input === 't') {
+        setMode('transfers');
+        return;
+      }
+
       // Search
       if (input === '/') {
         setMode('search');
@@ -255,6 +323,7 @@ export function useKeyboard(opts: {
       }
     },
     [
+      mode,
       loading,
       globalIndex,
       displayItems,
@@ -267,6 +336,7 @@ export function useKeyboard(opts: {
       setCurrentPage,
       setSelectedIndex,
       setSearchQuery,
+      startFileOp,
       toggleCheck,
       clearChecked,
       checkAll,
@@ -279,12 +349,14 @@ export function useKeyboard(opts: {
       nav,
       dl,
       onPreview,
+      onArchive,
       exit,
     ]
   );
 
   useInput((input, key) => {
-    if (mode === 'help' || mode === 'preview') {
+    if (hasConflict) return; // the conflict Modal owns the keyboard
+    if (mode === 'help') {
       if (input === 'q' || key.escape || key.upArrow || key.downArrow || key.leftArrow || key.rightArrow) {
         setMode('browse');
       }
@@ -316,6 +388,8 @@ export function useKeyboard(opts: {
             setMode('browse');
             setSearchQuery('');
             nav.handleEnter(selectedItem);
+          } else if (selectedItem.match) {
+            onPreview(selectedItem); // a content search match opens at its line
           } else if (selectedItem.type === 'FILE') {
             toggleCheck(globalIndex);
           }
@@ -336,6 +410,8 @@ export function useKeyboard(opts: {
           setMode('browse');
           setSearchQuery('');
           nav.handleEnter(selectedItem);
+        } else if (selectedItem.match) {
+          onPreview(selectedItem);
         } else if (selectedItem.type === 'FILE') {
           toggleCheck(globalIndex);
         }
@@ -343,7 +419,17 @@ export function useKeyboard(opts: {
       }
       return; // TextInput captures remaining keys
     }
-    if (mode === 'connecting') return;
+    // Preview, TransfersView, ArchiveView, FuzzyFinder, the upload prompt, file operation dialogs and their Modals handle their own keys
+    if (
+      mode === 'connecting' ||
+      mode === 'preview' ||
+      mode === 'transfers' ||
+      mode === 'archive' ||
+      mode === 'finder' ||
+      mode === 'upload' ||
+      mode === 'fileop'
+    )
+      return;
     if (mode === 'browse') {
       handleBrowse(input, key);
     }
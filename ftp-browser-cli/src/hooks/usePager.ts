@@ -0,0 +1,309 @@
+/**
+ * Lazy pager over a remote file: holds a window of the file and reads further
+ * ranges (defaults.pagerChunkBytes, REST offsets on FTP) when the view comes
+ * near either end of what is loaded. Jumping to the end of a file too large
+ * to hold reads only its tail; line numbers are unknown there until the
+ * window reaches back to the start.
+ *
+ * Tail mode opens on the last defaults.tailBytes and follows the file: its
+ * size is polled, growth is read like scrolling forward, and a file that
+ * shrank (truncated or rotated) is reopened at its new end.
+ *
+ * Binary content (judged once, on the first range read) is shown as a hex
+ * dump; toggleHex switches between the two views at the same offset.
+ *
+ * A reader replaces the remote file as the source (archive entries); its
+ * size is the listed one. A gzip file is shown decompressed, its first
+ * defaults.maxPreviewBytes (bzip2 and xz have no decoder in zlib and are
+ * shown as stored).
+ *
+ * jumpTo opens the file at the line starting at that offset (a content search
+ * match), reading from the start through it so its line number is known.
+ *
+ * togglePretty reads the whole file (up to defaults.pagerMaxBytes) and shows
+ * it reformatted; line offsets then point into the reformatted text.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PagerWindow, RangeReader } from '../types/index.js';
+import { getFtpService } from '../store/ftpSlice.js';
+import { compressionFormat, readDecompressed } from '../services/archive.js';
+import { defaults } from '../utils/constants.js';
+import {
+  appendRange,
+  atEndOfFile,
+  createWindow,
+  hexRowText,
+  lineIndexAt,
+  looksBinary,
+  prependRange,
+  windowEnd,
+  windowHexRows,
+  windowLines,
+} from '../utils/pager.js';
+
+const JUMP_CONTEXT_LINES = 3; // shown above the line jumped to
+
+export function usePager(
+  remotePath: string,
+  listedSize: number | null,
+  rows: number,
+  tail = false,
+  reader?: RangeReader,
+  jumpTo?: number
+) {
+  const [win, setWin] = useState<PagerWindow | null>(null);
+  const [topOffset, setTopOffset] = useState(0); // file offset of the top line
+  const [pinned, setPinned] = useState(tail); // keep the last page in view
+  const [following, setFollowing] = useState(tail);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hexChoice, setHexChoice] = useState<boolean | null>(null); // null: as detected
+  const [pretty, setPretty] = useState<PagerWindow | null>(null); // reformatted whole file
+  const winRef = useRef<PagerWindow | null>(null);
+  const busy = useRef(false);
+  const binary = useRef<boolean | null>(null);
+  const gunzipped = useRef<Promise<Buffer> | null>(null);
+  const compression = reader || tail ? null : compressionFormat(remotePath);
+  const decompressed = compression === 'gzip';
+  // Name of what is shown: "app.log" for "app.log.gz"
+  const contentName = decompressed ? remotePath.replace(/\.gz$/i, '') : remotePath;
+
+  if (win && binary.current === null) {
+    binary.current = looksBinary(win.data.subarray(0, defaults.binarySniffBytes), contentName);
+  }
+  const hex = hexChoice ?? binary.current ?? false;
+  const view = pretty ?? win; // the window lines are taken from
+  const lines = useMemo(() => (view ? (hex ? windowHexRows(view) : windowLines(view)) : []), [view, hex]);
+  const lastTop = Math.max(0, lines.length - rows);
+  const top = pinned ? lastTop : Math.min(lineIndexAt(lines, topOffset), lastTop);
+  const eof = view ? atEndOfFile(view) : false;
+  // Hex rows get their text only when shown; a full window has half a million of them
+  const visible = lines
+    .slice(top, top + rows)
+    .map((l) => (hex && view ? { ...l, text: hexRowText(view, l.offset) } : l));
+
+  const read = useCallback(
+    (offset: number, length: number): Promise<Buffer> => {
+      if (reader) return reader(offset, length);
+      const ftp = getFtpService();
+      if (!ftp) return Promise.reject(new Error('Not connected to FTP server'));
+      if (!decompressed) return ftp.readRange(remotePath, offset, length);
+      gunzipped.current ??= readDecompressed(ftp, remotePath, defaults.maxPreviewBytes).catch((err) => {
+        gunzipped.current = null; // let a retry read again
+        throw err;
+      });
+      return gunzipped.current.then((buf) => buf.subarray(offset, offset + length));
+    },
+    [remotePath, reader, decompressed]
+  );
+
+  /** Runs one load at a time; the window it returns replaces the current one */
+  const run = useCallback(async (load: (w: PagerWindow | null) => Promise<PagerWindow>) => {
+    if (busy.current) return;
+    busy.current = true;
+    setLoading(true);
+    try {
+      const next = await load(winRef.current);
+      winRef.current = next;
+      setWin(next);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      busy.current = false;
+      setLoading(false);
+    }
+  }, []);
+
+  const open = useCallback(
+    async (offset: number, size: number | null): Promise<PagerWindow> =>
+      createWindow(offset, await read(offset, defaults.pagerChunkBytes), defaults.pagerChunkBytes, size),
+    [read]
+  );
+
+  const forward = useCallback(
+    async (w: PagerWindow, length: number): Promise<PagerWindow> =>
+      appendRange(w, await read(windowEnd(w), length), length),
+    [read]
+  );
+
+  const backward = useCallback(
+    async (w: PagerWindow): Promise<PagerWindow> => {
+      const offset = Math.max(0, w.start - defaults.pagerChunkBytes);
+      return prependRange(w, await read(offset, w.start - offset));
+    },
+    [read]
+  );
+
+  useEffect(() => {
+    run(async () => {
+      // The listed size of a gzip file is the compressed one; the end shows up as a short read
+      const ftp = reader || decompressed ? null : getFtpService();
+      const size = ftp ? await ftp.size(remotePath).catch(() => listedSize) : decompressed ? null : listedSize;
+      if (jumpTo !== undefined) {
+        const length = Math.min(defaults.pagerMaxBytes, jumpTo + defaults.pagerChunkBytes);
+        const w = createWindow(0, await read(0, length), length, size);
+        const found = windowLines(w);
+        const index = Math.max(0, lineIndexAt(found, jumpTo) - JUMP_CONTEXT_LINES);
+        setTopOffset(found[index]?.offset ?? 0);
+        return w;
+      }
+      return open(tail && size !== null ? Math.max(0, size - defaults.tailBytes) : 0, size);
+    });
+  }, [remotePath]);
+
+  /** Follow mode: a larger size lets the prefetch below read the new bytes */
+  const poll = useCallback(async () => {
+    const ftp = getFtpService();
+    if (!ftp || !winRef.current || busy.current) return;
+    let size: number;
+    try {
+      size = await ftp.size(remotePath);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+    const w = winRef.current;
+    if (!w || busy.current) return;
+    setError(null);
+    if (size < windowEnd(w)) {
+      setNotice('File shrank (truncated or rotated); showing its new end');
+      run(() => open(Math.max(0, size - defaults.tailBytes), size));
+    } else if (size !== w.size) {
+      const next = { ...w, size };
+      winRef.current = next;
+      setWin(next);
+    }
+  }, [remotePath, run, open]);
+
+  useEffect(() => {
+    if (!following) return;
+    const timer = setInterval(poll, defaults.tailPollMs);
+    return () => clearInterval(timer);
+  }, [following, poll]);
+
+  // Keep two pages loaded beyond the view in both directions
+  useEffect(() => {
+    if (!win || pretty || loading || error) return;
+    if (!eof && lines.length - top < rows * 2) run((w) => forward(w!, defaults.pagerChunkBytes));
+    else if (win.start > 0 && top < rows) run((w) => backward(w!));
+  }, [win, pretty, lines.length, top, rows, eof, loading, error, run, forward, backward]);
+
+  const scroll = useCallback(
+    (delta: number) => {
+      if (lines.length === 0) return;
+      const next = Math.max(0, Math.min(lastTop, top + delta));
+      setNotice(null);
+      setPinned(eof && next === lastTop);
+      setTopOffset(lines[next].offset);
+    },
+    [lines, lastTop, top, eof]
+  );
+
+  const toTop = useCallback(() => {
+    setPinned(false);
+    setTopOffset(0);
+    const w = winRef.current;
+    if (w && w.start > 0) run(() => open(0, w.size));
+  }, [run, open]);
+
+  const toEnd = useCallback(() => {
+    setPinned(true);
+    const w = winRef.current;
+    if (!w || atEndOfFile(w)) return;
+    if (w.size === null) {
+      run((cur) => forward(cur!, defaults.pagerMaxBytes));
+    } else if (w.size - w.start <= defaults.pagerMaxBytes) {
+      run((cur) => forward(cur!, w.size! - windowEnd(cur!)));
+    } else {
+      run(() => open(Math.max(0, w.size! - defaults.pagerChunkBytes), w.size));
+    }
+  }, [run, open, forward]);
+
+  /** Starts following (from the end of the file) or pauses it */
+  const toggleFollow = useCallback(() => {
+    if (following) {
+      setFollowing(false);
+      return;
+    }
+    setNotice(null);
+    setPretty(null);
+    setFollowing(true);
+    toEnd();
+  }, [following, toEnd]);
+
+  /** Text <-> hex dump, keeping the top of the view at the same offset; the hex dump is of the file itself */
+  const toggleHex = useCallback(() => {
+    const first = lines[top];
+    if (pretty) setTopOffset(0);
+    else if (first) setTopOffset(first.offset);
+    setPretty(null);
+    setHexChoice(!hex);
+  }, [lines, top, hex, pretty]);
+
+  /** Reformatted view of the whole file <-> the file as it is */
+  const togglePretty = useCallback(
+    (format: (text: string) => string) => {
+      setPinned(false);
+      setTopOffset(0);
+      setNotice(null);
+      if (pretty) {
+        setPretty(null);
+        return;
+      }
+      const w = winRef.current;
+      if (!w) return;
+      if (w.size === null || w.size > defaults.pagerMaxBytes) {
+        setNotice('File too large to pretty-print');
+        return;
+      }
+      setFollowing(false);
+      setHexChoice(false);
+      run(async (cur) => {
+        const size = w.size!;
+        const full = cur!.start === 0 && atEndOfFile(cur!) ? cur! : createWindow(0, await read(0, size), size, size);
+        const data = Buffer.from(format(full.data.toString('utf8')));
+        setPretty({ start: 0, data, size: data.length, linesBefore: 0 });
+        return full;
+      });
+    },
+    [pretty, run, read]
+  );
+
+  /** Clears a failed read so the next range is tried again */
+  const retry = useCallback(() => {
+    if (!winRef.current) {
+      run(() => open(0, listedSize));
+      return;
+    }
+    setError(null);
+  }, [run, open, listedSize]);
+
+  return {
+    win,
+    view,
+    lines,
+    visible,
+    top,
+    eof,
+    hex,
+    pretty: pretty !== null,
+    compression,
+    decompressed,
+    contentName,
+    binary: binary.current ?? false,
+    loading,
+    error,
+    notice,
+    following,
+    scroll,
+    toTop,
+    toEnd,
+    toggleFollow,
+    toggleHex,
+    togglePretty,
+    retry,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Remote index for the fuzzy finder: reads the host's cache on mount, keeps
+ * it current from the directories browsed, crawls on request (and once
+ * connected with --index) and saves it on unmount. entries are only built
+ * while active (the finder is open).
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createRemoteIndex } from '../services/remoteIndex.js';
+import { getFtpService, useFTPStore } from '../store/ftpSlice.js';
+import { defaults, paths } from '../utils/constants.js';
+import type { FTPConfig, IndexEntry, IndexStatus } from '../types/index.js';
+
+export function useRemoteIndex(opts: {
+  config: FTPConfig;
+  exclude: string[]; // directory globs a crawl does not enter
+  crawlOnConnect: boolean;
+  active: boolean;
+}) {
+  const { config, exclude, crawlOnConnect, active } = opts;
+  const connected = useFTPStore((s) => s.connected);
+  const loading = useFTPStore((s) => s.loading);
+  const files = useFTPStore((s) => s.files);
+  const listedAt = useFTPStore((s) => s.listedAt);
+  const currentPath = useFTPStore((s) => s.currentPath);
+
+  const [index] = useState(() => createRemoteIndex(config));
+  const [status, setStatus] = useState<IndexStatus>(() => index.status());
+
+  useEffect(() => {
+    index.on('change', setStatus);
+    index.load();
+    return () => {
+      index.dispose();
+    };
+  }, [index]);
+
+  const crawl = useCallback(
+    (roots: string[], deep: boolean, refreshMs: number) => {
+      const svc = getFtpService();
+      if (svc) index.crawl(svc, { roots, deep, refreshMs, exclude });
+    },
+    [index, exclude]
+  );
+
+  /** Crawls the whole host, re-listing directories not listed within defaults.indexRefreshMs */
+  const build = useCallback(() => crawl([paths.root], true, defaults.indexRefreshMs), [crawl]);
+
+  /** Re-lists one directory */
+  const refresh = useCallback((dir: string) => crawl([dir], false, 0), [crawl]);
+
+  // --index: crawl once connected and the cache is read
+  const crawled = useRef(false);
+  useEffect(() => {
+    if (!crawlOnConnect || crawled.current || !connected || !status.loaded) return;
+    crawled.current = true;
+    build();
+  }, [crawlOnConnect, connected, status.loaded, build]);
+
+  // Listings seen while browsing keep the index current; nothing is recorded before the first one arrives
+  const recorded = useRef<number | null>(null);
+  useEffect(() => {
+    if (!connected || loading || !status.loaded || listedAt === null || listedAt === recorded.current) return;
+    recorded.current = listedAt;
+    index.record(currentPath, files, listedAt);
+  }, [index, connected, loading, status.loaded, files, listedAt, currentPath]);
+
+  const entries = useMemo<IndexEntry[]>(() => (active ? index.entries() : []), [index, active, status.version]);
+
+  return { status, entries, build, refresh };
+}
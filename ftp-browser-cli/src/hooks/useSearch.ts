@@ -1,22 +1,29 @@
 /**
  * Search: debounced query, run search, update results incrementally, cancel.
  * Uses batched incremental loading (200ms flush) so results appear as they are found.
+ * A query that does not parse sets searchError instead of searching. Progress
+ * (directories scanned and queued) is flushed with the results; a new search
+ * cancels the one still running. limits bound every search (the query may
+ * override them).
  */
 
 import { useCallback, useRef, useEffect } from 'react';
 import { SearchService, createSearchService } from '../services/searchService.js';
+import { parseSearchQuery } from '../services/searchQuery.js';
 import { getFtpService, useFTPStore } from '../store/ftpSlice.js';
 import { useUIStore } from '../store/uiSlice.js';
 import { defaults } from '../utils/constants.js';
-import type { FileItem } from '../types/index.js';
+import type { FileItem, SearchLimits, SearchProgress, SearchQuery } from '../types/index.js';
 
 const FLUSH_INTERVAL_MS = 200;
 
-export function useSearch() {
+export function useSearch(limits?: SearchLimits) {
   const currentPath = useFTPStore((s) => s.currentPath);
   const setSearchResults = useUIStore((s) => s.setSearchResults);
   const appendSearchResults = useUIStore((s) => s.appendSearchResults);
   const setIsSearching = useUIStore((s) => s.setIsSearching);
+  const setSearchError = useUIStore((s) => s.setSearchError);
+  const setSearchProgress = useUIStore((s) => s.setSearchProgress);
   const searchQuery = useUIStore((s) => s.searchQuery);
   const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -24,14 +31,19 @@ export function useSearch() {
   const svcRef = useRef<SearchService | null>(null);
   // Batch buffer and flush timer for incremental results
   const batchRef = useRef<FileItem[]>([]);
+  const progressRef = useRef<SearchProgress | null>(null);
   const flushRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const flushBatch = useCallback(() => {
+    if (progressRef.current) {
+      setSearchProgress(progressRef.current);
+      progressRef.current = null;
+    }
     if (batchRef.current.length === 0) return;
     const batch = batchRef.current;
     batchRef.current = [];
     appendSearchResults(batch);
-  }, [appendSearchResults]);
+  }, [appendSearchResults, setSearchProgress]);
 
   const runSearch = useCallback(
     async (query: string) => {
@@ -41,6 +53,16 @@ export function useSearch() {
         setIsSearching(false);
         return;
       }
+      let parsed: SearchQuery;
+      try {
+        parsed = parseSearchQuery(q);
+      } catch (err) {
+        setSearchResults([]);
+        setSearchError(err instanceof Error ? err.message : String(err));
+        setIsSearching(false);
+        return;
+      }
+      setSearchError(null);
       const ftp = getFtpService();
       if (!ftp) {
         setSearchResults([]);
@@ -49,12 +71,16 @@ export function useSearch() {
       }
 
       // Create and store the service instance so cancel works
+      svcRef.current?.cancel();
+      if (flushRef.current) clearInterval(flushRef.current as unknown as number);
       const svc = createSearchService(ftp);
       svcRef.current = svc;
 
       // Clear previous results and batch buffer
       setSearchResults([]);
       batchRef.current = [];
+      progressRef.current = null;
+      setSearchProgress(null);
       setIsSearching(true);
 
       // Set up periodic flush
@@ -66,17 +92,21 @@ export function useSearch() {
       try {
         await svc.search(
           currentPath,
-          q,
-          defaults.maxSearchDepth,
-          undefined, // onProgress
+          parsed,
+          limits,
+          (progress) => {
+            if (svcRef.current === svc) progressRef.current = progress;
+          },
           (_item: FileItem) => {
-            // Buffer each match for batched append
-            batchRef.current.push(_item);
+            // Buffer each match for batched append (a search replaced by a newer one is ignored)
+            if (svcRef.current === svc) batchRef.current.push(_item);
           }
         );
       } catch {
         // search failed or was cancelled
       } finally {
+        // A newer search owns the flush timer and the results
+        if (svcRef.current !== svc) return;
         // Final flush of remaining buffered items
         if (flushRef.current) {
           clearInterval(flushRef.current as unknown as number);
@@ -87,7 +117,7 @@ export function useSearch() {
         svcRef.current = null;
       }
     },
-    [currentPath, setSearchResults, appendSearchResults, setIsSearching, flushBatch]
+    [currentPath, limits, setSearchResults, appendSearchResults, setIsSearching, setSearchError, setSearchProgress, flushBatch]
   );
 
   const runSearchDebounced = useCallback(
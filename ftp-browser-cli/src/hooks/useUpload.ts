@@ -0,0 +1,50 @@
+/**
+ * Upload: resolve local paths typed at the prompt and queue them on the
+ * download manager (which also runs uploads, on separate connections).
+ */
+
+import { useCallback } from 'react';
+import { promises as fs } from 'fs';
+import { basename } from 'path';
+import { downloadManager } from '../services/downloadManager.js';
+import { expandHome } from '../services/profiles.js';
+import { splitPathList } from '../utils/path.js';
+
+export interface LocalUploadItem {
+  localPath: string;
+  name: string;
+  type: 'DIR' | 'FILE';
+}
+
+export function useUpload() {
+  /** Parses the prompt line; every path must exist locally */
+  const resolveLocalPaths = useCallback(async (input: string): Promise<LocalUploadItem[]> => {
+    const items: LocalUploadItem[] = [];
+    for (const raw of splitPathList(input)) {
+      if (!raw) continue; // '' would resolve to the working directory
+      const localPath = expandHome(raw);
+      let st;
+      try {
+        st = await fs.stat(localPath);
+      } catch {
+        throw new Error(`Local path not found: ${raw}`);
+      }
+      if (!st.isFile() && !st.isDirectory()) throw new Error(`Not a file or directory: ${raw}`);
+      items.push({ localPath, name: basename(localPath), type: st.isDirectory() ? 'DIR' : 'FILE' });
+    }
+    return items;
+  }, []);
+
+  const uploadItems = useCallback((items: LocalUploadItem[], remoteBase: string, resume: boolean) => {
+    for (const item of items) {
+      const remotePath = remoteBase === '/' ? `/${item.name}` : `${remoteBase}/${item.name}`;
+      if (item.type === 'DIR') {
+        downloadManager.addUploadDirectory(item.localPath, remotePath, resume).catch(() => {});
+      } else {
+        downloadManager.addUpload(item.localPath, remotePath, resume);
+      }
+    }
+  }, []);
+
+  return { resolveLocalPaths, uploadItems };
+}
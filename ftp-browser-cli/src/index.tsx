@@ -7,6 +7,8 @@ import React from 'react';
 import { render } from 'ink';
 import { parseCLI } from './cli.js';
 import { RootApp } from './app.js';
+import { downloadManager } from './services/downloadManager.js';
+import { setRetryPolicy } from './services/retry.js';
 
 async function main(): Promise<void> {
   const opts = await parseCLI();
@@ -15,6 +17,11 @@ async function main(): Promise<void> {
     return;
   }
 
+  downloadManager.setMaxConcurrent(opts.maxConnections);
+  downloadManager.setConflictPolicy(opts.conflictPolicy);
+  downloadManager.setRetryOnMismatch(opts.verify);
+  setRetryPolicy(opts.retry);
+
   if (!process.stdout.isTTY) {
     console.error('Error: This application requires an interactive terminal (TTY).');
     process.exit(1);
@@ -26,6 +33,15 @@ async function main(): Promise<void> {
     React.createElement(RootApp, {
       config: opts.config,
       downloadDir: opts.downloadDir,
+      startPath: opts.startPath,
+      getStartFile: opts.getStartFile,
+      promptPassword: opts.promptPassword,
+      profiles: opts.profiles,
+      profilesPath: opts.profilesPath,
+      profileError: opts.profileError,
+      overrides: opts.overrides,
+      searchLimits: opts.searchLimits,
+      index: opts.index,
     })
   );
 
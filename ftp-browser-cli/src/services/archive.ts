@@ -0,0 +1,510 @@
+/**
+ * Archive inspection on the server. A zip listing comes from its central
+ * directory, fetched with ranged reads at the end of the file; tar and
+ * tar.gz have no index and are streamed from the start. A single entry is
+ * read (for preview) or extracted the same way, and the transfer stops as
+ * soon as the entry is complete. A gzip-compressed file is previewed the same
+ * way, decompressed while it streams.
+ */
+
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import { PassThrough, Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import { createGunzip, createInflateRaw } from 'zlib';
+import { dirname } from 'path';
+import type { ArchiveEntry, ArchiveFormat, Compression, IRemoteService } from '../types/index.js';
+import { ArchiveError } from './errors.js';
+import { ensureDirectoryExists } from './fileSystem.js';
+
+// Ends a transfer on purpose once enough has been read
+const STOP = new Error('Archive read complete');
+
+const ZIP_EOCD = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_EOCD = 0x06064b50;
+const ZIP_CENTRAL = 0x02014b50;
+const ZIP_LOCAL = 0x04034b50;
+const ZIP_EOCD_MAX = 22 + 0xffff; // record + longest comment
+const TAR_BLOCK = 512;
+
+export function archiveFormat(name: string): ArchiveFormat | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.zip')) return 'zip';
+  if (lower.endsWith('.tar')) return 'tar';
+  if (lower.endsWith('.tar.gz') || lower.endsWith('.tgz')) return 'tgz';
+  return null;
+}
+
+/** Compression of a single file, by extension; only gzip can be decompressed (no bzip2/xz in zlib) */
+export function compressionFormat(name: string): Compression | null {
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.gz')) return 'gzip';
+  if (lower.endsWith('.bz2')) return 'bzip2';
+  if (lower.endsWith('.xz')) return 'xz';
+  return null;
+}
+
+/** zlib's error code (Z_DATA_ERROR, Z_BUF_ERROR for input that ends early, ...), else null */
+function zlibCode(err: unknown): string | null {
+  const code = (err as { code?: unknown }).code;
+  return typeof code === 'string' && code.startsWith('Z_') ? code : null;
+}
+
+/** Sink keeping the first maxBytes written to it, then stopping the read */
+function collector(maxBytes: number): { sink: Writable; result: () => Buffer } {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  const sink = new Writable({
+    write(chunk: Buffer, _enc, cb) {
+      const part = chunk.subarray(0, maxBytes - total);
+      chunks.push(part);
+      total += part.length;
+      cb(total >= maxBytes ? STOP : null);
+    },
+  });
+  return { sink, result: () => Buffer.concat(chunks, total) };
+}
+
+/**
+ * Streams up to length bytes from offset into downstream and waits for done
+ * (the end of the chain downstream feeds). Any stage may end the read early
+ * by failing with STOP; so does signal.
+ */
+async function pump(
+  service: IRemoteService,
+  path: string,
+  offset: number,
+  length: number,
+  downstream: Writable,
+  done: Promise<unknown>,
+  onProgress?: (bytesRead: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  // Settled into a value right away, so a failure before the read ends is not unhandled
+  const settled = done.then(
+    () => null,
+    (err) => (err === STOP ? null : err)
+  );
+  if (length === 0) {
+    downstream.end();
+    const failure = await settled;
+    if (failure) throw failure;
+    return;
+  }
+  let remaining = length;
+  let bytesRead = 0;
+  const head = new Writable({
+    write(chunk: Buffer, _enc, cb) {
+      const part = chunk.subarray(0, remaining);
+      remaining -= part.length;
+      bytesRead += part.length;
+      onProgress?.(bytesRead);
+      const next = () => {
+        if (remaining > 0) return cb();
+        downstream.end();
+        cb(STOP);
+      };
+      if (downstream.write(part)) next();
+      else downstream.once('drain', next);
+    },
+    final(cb) {
+      downstream.end();
+      cb();
+    },
+  });
+  head.on('error', () => {}); // surfaces as readStream's rejection (also when destroyed before it starts)
+  downstream.on('error', (err) => head.destroy(err));
+  const abort = () => head.destroy(STOP);
+  signal?.addEventListener('abort', abort);
+  try {
+    await service.readStream(path, head, offset);
+  } catch (err) {
+    // A stop from downstream already ended or destroyed it; anything else has not
+    if (!downstream.writableEnded && !downstream.destroyed) downstream.destroy(err as Error);
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+  const failure = await settled;
+  if (failure) throw failure;
+}
+
+/** MS-DOS date and time fields (local time) */
+function dosDate(date: number, time: number): Date | null {
+  if (date === 0) return null;
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+}
+
+/** Central directory entries; ZIP64 sizes and offsets come from the 0x0001 extra field */
+function parseCentralDirectory(cd: Buffer, count: number): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let pos = 0;
+  for (let n = 0; n < count && pos + 46 <= cd.length; n++) {
+    if (cd.readUInt32LE(pos) !== ZIP_CENTRAL) throw new ArchiveError('Corrupt zip central directory');
+    const flags = cd.readUInt16LE(pos + 8);
+    const nameLen = cd.readUInt16LE(pos + 28);
+    const extraLen = cd.readUInt16LE(pos + 30);
+    const commentLen = cd.readUInt16LE(pos + 32);
+    const rawName = cd.subarray(pos + 46, pos + 46 + nameLen);
+    // Bit 11: UTF-8 names; older archives use CP437, close enough to latin1 for display
+    const name = rawName.toString(flags & 0x800 ? 'utf8' : 'latin1');
+    let compressedSize = cd.readUInt32LE(pos + 20);
+    let size = cd.readUInt32LE(pos + 24);
+    let offset = cd.readUInt32LE(pos + 42);
+    let date = dosDate(cd.readUInt16LE(pos + 14), cd.readUInt16LE(pos + 12));
+    const extra = cd.subarray(pos + 46 + nameLen, pos + 46 + nameLen + extraLen);
+    for (let e = 0; e + 4 <= extra.length; ) {
+      const id = extra.readUInt16LE(e);
+      const len = extra.readUInt16LE(e + 2);
+      const body = extra.subarray(e + 4, e + 4 + len);
+      if (id === 0x0001) {
+        let f = 0;
+        const next = () => (f + 8 <= body.length ? Number(body.readBigUInt64LE((f += 8) - 8)) : null);
+        if (size === 0xffffffff) size = next() ?? size;
+        if (compressedSize === 0xffffffff) compressedSize = next() ?? compressedSize;
+        if (offset === 0xffffffff) offset = next() ?? offset;
+      } else if (id === 0x5455 && body.length >= 5 && body[0] & 1) {
+        // Extended timestamp: Unix mtime, more exact than the DOS fields
+        date = new Date(body.readUInt32LE(1) * 1000);
+      }
+      e += 4 + len;
+    }
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      date,
+      isDirectory: name.endsWith('/'),
+      link: null,
+      offset,
+      method: cd.readUInt16LE(pos + 10),
+      encrypted: (flags & 1) !== 0,
+    });
+    pos += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+}
+
+async function listZip(service: IRemoteService, path: string, size: number): Promise<ArchiveEntry[]> {
+  const tailStart = Math.max(0, size - ZIP_EOCD_MAX);
+  const tail = await service.readRange(path, tailStart, size - tailStart);
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_EOCD) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ArchiveError('Not a zip file (no end of central directory record)');
+  let count = tail.readUInt16LE(eocd + 10);
+  let cdSize = tail.readUInt32LE(eocd + 12);
+  let cdOffset = tail.readUInt32LE(eocd + 16);
+  if (count === 0xffff || cdSize === 0xffffffff || cdOffset === 0xffffffff) {
+    const locator = eocd - 20;
+    if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR) {
+      throw new ArchiveError('Corrupt zip file (missing ZIP64 locator)');
+    }
+    const record = await service.readRange(path, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (record.length < 56 || record.readUInt32LE(0) !== ZIP64_EOCD) {
+      throw new ArchiveError('Corrupt zip file (bad ZIP64 end of central directory)');
+    }
+    count = Number(record.readBigUInt64LE(32));
+    cdSize = Number(record.readBigUInt64LE(40));
+    cdOffset = Number(record.readBigUInt64LE(48));
+  }
+  // Small archives: the central directory came with the tail read
+  const cd =
+    cdOffset >= tailStart
+      ? tail.subarray(cdOffset - tailStart, cdOffset - tailStart + cdSize)
+      : await service.readRange(path, cdOffset, cdSize);
+  return parseCentralDirectory(cd, count);
+}
+
+/** Octal field, or base-256 (high bit set) for values too large for octal */
+function tarNumber(field: Buffer): number {
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f;
+    for (let i = 1; i < field.length; i++) value = value * 256 + field[i];
+    return value;
+  }
+  const text = field.toString('latin1').replace(/\0.*$/s, '').trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function tarString(field: Buffer): string {
+  const end = field.indexOf(0);
+  return field.subarray(0, end < 0 ? field.length : end).toString('utf8');
+}
+
+/** "len key=value\n" records of a pax extended header */
+function paxRecords(data: Buffer): Map<string, string> {
+  const records = new Map<string, string>();
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const len = parseInt(data.toString('latin1', pos, space), 10);
+    if (space < 0 || !(len > 0)) break;
+    const record = data.toString('utf8', space + 1, pos + len - 1);
+    const eq = record.indexOf('=');
+    if (eq > 0) records.set(record.slice(0, eq), record.slice(eq + 1));
+    pos += len;
+  }
+  return records;
+}
+
+/**
+ * Tar stream parser (ustar, GNU long names, pax headers). Reports each entry
+ * to onEntry; the entry whose header is at target.offset has its data
+ * written to target.out, after which the parser stops the read.
+ */
+class TarParser extends Writable {
+  private header = Buffer.alloc(0);
+  private pos = 0; // stream offset of the next byte
+  private dataLeft = 0;
+  private padLeft = 0;
+  private meta: Buffer[] | null = null; // data of a long name or pax header
+  private metaType = '';
+  private longName: string | null = null;
+  private pax = new Map<string, string>();
+  private extracting = false;
+
+  constructor(
+    private readonly onEntry: (entry: ArchiveEntry) => void,
+    private readonly target?: { offset: number; out: Writable }
+  ) {
+    super();
+    target?.out.on('error', (err) => this.destroy(err));
+  }
+
+  _write(chunk: Buffer, _enc: BufferEncoding, cb: (err?: Error | null) => void): void {
+    this.consume(chunk).then(
+      (stop) => cb(stop ? STOP : null),
+      (err) => cb(err)
+    );
+  }
+
+  _final(cb: (err?: Error | null) => void): void {
+    if (this.target && this.pos <= this.target.offset) cb(new ArchiveError('Entry not found in archive'));
+    else if (this.extracting) cb(new ArchiveError('Archive ends inside the entry'));
+    else cb();
+  }
+
+  /** Resolves true once there is nothing more to read */
+  private async consume(chunk: Buffer): Promise<boolean> {
+    let i = 0;
+    while (i < chunk.length) {
+      if (this.dataLeft > 0) {
+        const part = chunk.subarray(i, i + Math.min(this.dataLeft, chunk.length - i));
+        i += part.length;
+        this.pos += part.length;
+        this.dataLeft -= part.length;
+        if (this.meta) this.meta.push(part);
+        else if (this.extracting && !this.target!.out.write(part)) await once(this.target!.out, 'drain');
+        if (this.dataLeft === 0 && (await this.endData())) return true;
+      } else if (this.padLeft > 0) {
+        const n = Math.min(this.padLeft, chunk.length - i);
+        i += n;
+        this.pos += n;
+        this.padLeft -= n;
+      } else {
+        const n = Math.min(TAR_BLOCK - this.header.length, chunk.length - i);
+        this.header = Buffer.concat([this.header, chunk.subarray(i, i + n)]);
+        i += n;
+        this.pos += n;
+        if (this.header.length < TAR_BLOCK) continue;
+        const block = this.header;
+        this.header = Buffer.alloc(0);
+        if (block.every((b) => b === 0)) return true; // end-of-archive marker
+        if (await this.startEntry(block, this.pos - TAR_BLOCK)) return true;
+      }
+    }
+    return false;
+  }
+
+  private async startEntry(block: Buffer, offset: number): Promise<boolean> {
+    let sum = 0;
+    for (let k = 0; k < TAR_BLOCK; k++) sum += k >= 148 && k < 156 ? 0x20 : block[k];
+    if (sum !== tarNumber(block.subarray(148, 156))) {
+      throw new ArchiveError(offset === 0 ? 'Not a tar archive' : `Corrupt tar header at offset ${offset}`);
+    }
+    const type = String.fromCharCode(block[156] || 0x30);
+    const isMeta = type === 'L' || type === 'K' || type === 'x' || type === 'g';
+    const headerSize = tarNumber(block.subarray(124, 136));
+    const size = isMeta ? headerSize : Number(this.pax.get('size') ?? headerSize);
+    this.dataLeft = size;
+    this.padLeft = (TAR_BLOCK - (size % TAR_BLOCK)) % TAR_BLOCK;
+    if (isMeta) {
+      this.meta = [];
+      this.metaType = type;
+      return size === 0 && this.endData();
+    }
+    const ustar = block.toString('latin1', 257, 262) === 'ustar';
+    const prefix = ustar ? tarString(block.subarray(345, 500)) : '';
+    const name = this.pax.get('path') ?? this.longName ?? (prefix ? `${prefix}/` : '') + tarString(block.subarray(0, 100));
+    const mtime = this.pax.get('mtime') ?? tarNumber(block.subarray(136, 148));
+    const isLink = type === '1' || type === '2';
+    const entry: ArchiveEntry = {
+      name,
+      size: isLink ? 0 : size,
+      compressedSize: null,
+      date: new Date(Number(mtime) * 1000),
+      isDirectory: type === '5' || name.endsWith('/'),
+      link: isLink ? this.pax.get('linkpath') ?? tarString(block.subarray(157, 257)) : null,
+      offset,
+      method: null,
+      encrypted: false,
+    };
+    this.longName = null;
+    this.pax = new Map();
+    this.onEntry(entry);
+    this.extracting = this.target?.offset === offset;
+    return size === 0 && this.endData();
+  }
+
+  /** After an entry's data; true when that was the entry being extracted */
+  private async endData(): Promise<boolean> {
+    if (this.meta) {
+      const data = Buffer.concat(this.meta);
+      if (this.metaType === 'L') this.longName = tarString(data);
+      else if (this.metaType === 'x') this.pax = paxRecords(data);
+      this.meta = null;
+      return false;
+    }
+    if (!this.extracting) {
+      // Past the target without meeting its header: the listing is out of date
+      if (this.target && this.pos > this.target.offset) throw new ArchiveError('Entry not found in archive');
+      return false;
+    }
+    this.extracting = false;
+    const { out } = this.target!;
+    out.end();
+    await finished(out);
+    return true;
+  }
+}
+
+/** Runs a tar parser over the whole (decompressed) archive */
+async function streamTar(
+  service: IRemoteService,
+  path: string,
+  format: ArchiveFormat,
+  parser: TarParser,
+  onProgress?: (bytesRead: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const input = format === 'tgz' ? createGunzip() : new PassThrough();
+  try {
+    await pump(service, path, 0, Infinity, input, pipeline(input, parser), onProgress, signal);
+  } catch (err) {
+    if (zlibCode(err)) throw new ArchiveError(`Not a gzip file: ${(err as Error).message}`);
+    throw err;
+  }
+}
+
+/**
+ * Lists an archive. Tar entries are reported to onEntry while the archive
+ * streams (onProgress gets the bytes read so far); aborting signal returns
+ * what was listed until then.
+ */
+export async function listArchive(
+  service: IRemoteService,
+  path: string,
+  format: ArchiveFormat,
+  size: number,
+  onEntry?: (entry: ArchiveEntry) => void,
+  onProgress?: (bytesRead: number) => void,
+  signal?: AbortSignal
+): Promise<ArchiveEntry[]> {
+  if (format === 'zip') {
+    const entries = await listZip(service, path, size);
+    entries.forEach((e) => onEntry?.(e));
+    return entries;
+  }
+  const entries: ArchiveEntry[] = [];
+  const parser = new TarParser((entry) => {
+    entries.push(entry);
+    onEntry?.(entry);
+  });
+  await streamTar(service, path, format, parser, onProgress, signal);
+  return entries;
+}
+
+/** Writes one entry's content into out (ended when complete) */
+async function streamEntry(
+  service: IRemoteService,
+  path: string,
+  format: ArchiveFormat,
+  entry: ArchiveEntry,
+  out: Writable,
+  onProgress?: (bytesRead: number) => void
+): Promise<void> {
+  if (entry.isDirectory || entry.link !== null) throw new ArchiveError(`Not a file: ${entry.name}`);
+  if (format !== 'zip') {
+    await streamTar(service, path, format, new TarParser(() => {}, { offset: entry.offset, out }), onProgress);
+    return;
+  }
+  if (entry.encrypted) throw new ArchiveError(`Encrypted entry: ${entry.name}`);
+  if (entry.method !== 0 && entry.method !== 8) {
+    throw new ArchiveError(`Unsupported compression method ${entry.method}: ${entry.name}`);
+  }
+  const local = await service.readRange(path, entry.offset, 30);
+  if (local.length < 30 || local.readUInt32LE(0) !== ZIP_LOCAL) throw new ArchiveError(`Corrupt zip entry: ${entry.name}`);
+  const dataStart = entry.offset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28);
+  const input = entry.method === 8 ? createInflateRaw() : new PassThrough();
+  await pump(service, path, dataStart, entry.compressedSize ?? 0, input, pipeline(input, out), onProgress);
+}
+
+/** Up to maxBytes from the start of an entry */
+export async function readArchiveEntry(
+  service: IRemoteService,
+  path: string,
+  format: ArchiveFormat,
+  entry: ArchiveEntry,
+  maxBytes: number
+): Promise<Buffer> {
+  const { sink, result } = collector(maxBytes);
+  try {
+    await streamEntry(service, path, format, entry, sink);
+  } catch (err) {
+    if (err !== STOP) throw err;
+  }
+  return result();
+}
+
+/**
+ * Up to maxBytes of a gzip file's decompressed content. A file that ends
+ * early (a log still being written) gives what could be decompressed.
+ */
+export async function readDecompressed(service: IRemoteService, path: string, maxBytes: number): Promise<Buffer> {
+  const { sink, result } = collector(maxBytes);
+  const input = createGunzip();
+  try {
+    await pump(service, path, 0, Infinity, input, pipeline(input, sink));
+  } catch (err) {
+    const code = zlibCode(err);
+    if (code === 'Z_BUF_ERROR') return result();
+    if (code) throw new ArchiveError(`Not gzip data: ${(err as Error).message}`);
+    throw err;
+  }
+  return result();
+}
+
+/** Extracts one entry to localPath (onProgress: archive bytes read) */
+export async function extractArchiveEntry(
+  service: IRemoteService,
+  path: string,
+  format: ArchiveFormat,
+  entry: ArchiveEntry,
+  localPath: string,
+  onProgress?: (bytesRead: number) => void
+): Promise<void> {
+  await ensureDirectoryExists(dirname(localPath));
+  await streamEntry(service, path, format, entry, createWriteStream(localPath), onProgress);
+}
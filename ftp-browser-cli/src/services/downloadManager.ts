@@ -1,39 +1,129 @@
 /**
- * Download manager: queue, progress, cancel. Uses FTPService for actual transfers.
+ * Download manager: the single path for transfers (downloads and uploads).
+ * Pending queue, max-concurrent-connections limit, pause/resume/cancel,
+ * retry and reprioritization.
+ *
+ * Each running transfer owns a separate session (see IRemoteService.openSession);
+ * idle sessions are reused for the next queued file while they are still open
+ * and have not sat idle past defaults.sessionIdleMs. Pause and cancel close the
+ * running session, which aborts the data connection and leaves the partial file
+ * on disk; a transfer that had written data is marked for resume, so the next
+ * attempt continues the partial file instead of starting over.
+ *
+ * A transfer that fails with a retryable error (timeout, dropped connection,
+ * 4xx reply; see isRetryableError) waits out the retry policy's backoff and
+ * is queued again, resuming whatever it had written. Attempts count failures
+ * in a row: an attempt that moved data starts the count over.
+ *
+ * Finished downloads are verified on the same session (server hash, else
+ * size). With retryOnMismatch (--verify) a mismatching file is deleted and
+ * downloaded again, up to defaults.verifyRetries times.
+ *
+ * A new download whose local file already exists is held in the queue until
+ * the conflict policy (or the user, via 'conflicts') picks overwrite, resume,
+ * skip or rename. "Apply to all" choices are remembered per batch: the files
+ * queued by one user action.
+ *
+ * Emits 'update' (row changed), 'remove' (row forgotten), 'queue' (pending
+ * order), 'conflicts' (downloads waiting for a choice) and 'uploaded' (remote
+ * path written, for listing refresh).
  */
 
 import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { basename, extname, join } from 'path';
 import type {
+  ConflictAction,
+  ConflictPolicy,
   DownloadProgress,
   FTPProgressCallback,
   IDownloadManager,
-  IFTPService,
+  IRemoteService,
+  TransferConflict,
 } from '../types/index.js';
+import { defaults, errorMessages } from '../utils/constants.js';
+import { formatVerifyMethod } from '../utils/format.js';
+import { ensureDirectoryExists, getFileSize, pathExists, readLocalDirectory, removeFile } from './fileSystem.js';
+import { verifyDownload } from './verify.js';
+import { VerificationError, isRetryableError } from './errors.js';
+import { backoffDelay, getRetryPolicy } from './retry.js';
 
-let _ftpRef: IFTPService | null = null;
+let _ftpRef: IRemoteService | null = null;
 
-export function setFtpService(service: IFTPService | null): void {
+export function setFtpService(service: IRemoteService | null): void {
   _ftpRef = service;
+  if (!service) downloadManager.closeIdleSessions();
 }
 
-function ftpRef(): IFTPService | null {
+function ftpRef(): IRemoteService | null {
   return _ftpRef;
 }
 
 const progressCallbacks = new Map<string, FTPProgressCallback>();
 
-export class DownloadManager implements IDownloadManager {
+export class DownloadManager extends EventEmitter implements IDownloadManager {
   private downloads: Map<string, DownloadProgress> = new Map();
-  private running: Set<string> = new Set();
+  private queue: string[] = [];
+  private running: Map<string, IRemoteService | null> = new Map();
+  private idle: { session: IRemoteService; since: number }[] = [];
+  private attempts: Map<string, number> = new Map();
+  private maxConcurrent: number = defaults.maxConcurrentDownloads;
+  private conflictPolicy: ConflictPolicy = defaults.conflictPolicy;
+  private admitted: Set<string> = new Set(); // cleared to start (local target checked)
+  private conflicts: TransferConflict[] = [];
+  private batches: Map<string, string> = new Map(); // download id -> batch id
+  private batchActions: Map<string, ConflictAction> = new Map(); // "apply to all" per batch
+  private retryOnMismatch = false;
+  private verifyRetries: Map<string, number> = new Map(); // re-downloads after a mismatch
+  private failures: Map<string, number> = new Map(); // retryable failures in a row
+  private retryTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private rewalks: Map<string, () => Promise<void>> = new Map(); // failed directory rows -> their walk
 
-  addDownload(remotePath: string, localPath: string): string {
-    const id = randomUUID();
+  setMaxConcurrent(n: number): void {
+    this.maxConcurrent = Math.max(1, Math.floor(n));
+    this.pump();
+  }
+
+  getMaxConcurrent(): number {
+    return this.maxConcurrent;
+  }
+
+  /** Default for local name conflicts; 'ask' raises them to the UI */
+  setConflictPolicy(policy: ConflictPolicy): void {
+    this.conflictPolicy = policy;
+  }
+
+  /** --verify: delete and re-download files that fail verification */
+  setRetryOnMismatch(enabled: boolean): void {
+    this.retryOnMismatch = enabled;
+  }
+
+  /** New batch id: downloads sharing one are covered by one "apply to all" */
+  createBatch(): string {
+    return randomUUID();
+  }
+
+  addDownload(remotePath: string, localPath: string, batch?: string): string {
     const name = remotePath.split('/').filter(Boolean).pop() ?? remotePath;
+    const id = this.enqueue({ direction: 'download', filename: name, remotePath, localPath }, true);
+    this.batches.set(id, batch ?? id);
+    this.checkConflict(id).catch(() => this.admit(id));
+    return id;
+  }
+
+  /** Queues a local file for upload to remotePath */
+  addUpload(localPath: string, remotePath: string, resume: boolean = false): string {
+    return this.enqueue({ direction: 'upload', filename: basename(localPath), remotePath, localPath, resume });
+  }
+
+  private enqueue(
+    entry: Pick<DownloadProgress, 'direction' | 'filename' | 'remotePath' | 'localPath' | 'resume'>,
+    hold: boolean = false
+  ): string {
+    const id = randomUUID();
     const d: DownloadProgress = {
       id,
-      filename: name,
-      remotePath,
-      localPath,
+      ...entry,
       totalSize: 0,
       downloaded: 0,
       speed: 0,
@@ -41,57 +131,547 @@ export class DownloadManager implements IDownloadManager {
       status: 'pending',
     };
     this.downloads.set(id, d);
-    this.run(id);
+    this.queue.push(id);
+    if (!hold) this.admitted.add(id);
+    this.emit('update', { ...d });
+    this.emitQueue();
+    this.pump();
     return id;
   }
 
-  private async run(id: string): Promise<void> {
+  /**
+   * Holds a new download until its local target is free or the conflict is
+   * resolved. A target claimed by another unfinished download counts as taken.
+   */
+  private async checkConflict(id: string): Promise<void> {
     const d = this.downloads.get(id);
+    if (!d) return;
+    // Checked before awaiting so same-named files queued together see each other
+    const claim = Array.from(this.downloads.values()).find(
+      (o) =>
+        o.id !== id &&
+        o.direction === 'download' &&
+        o.localPath === d.localPath &&
+        (o.status === 'pending' || o.status === 'downloading' || o.status === 'paused')
+    );
+    if (!claim && !(await pathExists(d.localPath))) {
+      this.admit(id);
+      return;
+    }
+    const batch = this.batches.get(id) ?? id;
+    const action = this.batchActions.get(batch) ?? (this.conflictPolicy === 'ask' ? null : this.conflictPolicy);
+    if (action) {
+      await this.applyConflictAction(id, action);
+      return;
+    }
+    if (d.status === 'cancelled') return;
+    const inBatch = Array.from(this.batches.values()).filter((b) => b === batch).length > 1;
+    this.conflicts.push({
+      id,
+      filename: d.filename,
+      remotePath: d.remotePath,
+      localPath: d.localPath,
+      localSize: await getFileSize(d.localPath),
+      claimedBy: claim?.remotePath,
+      inBatch,
+    });
+    this.emitConflicts();
+  }
+
+  /** Lets a held download start (when it is queued and a slot is free) */
+  private admit(id: string): void {
+    this.admitted.add(id);
+    this.pump();
+  }
+
+  private async applyConflictAction(id: string, action: ConflictAction): Promise<void> {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    if (action === 'skip') {
+      this.queue = this.queue.filter((q) => q !== id);
+      this.emitQueue();
+      if (d.status === 'pending' || d.status === 'paused') this.update(id, { status: 'skipped' });
+      this.pump();
+      return;
+    }
+    if (action === 'rename') await this.renameTarget(id);
+    else this.update(id, { resume: action === 'resume' });
+    this.admit(id);
+  }
+
+  /** Points a download at the first free "name (n).ext" next to its local path */
+  private async renameTarget(id: string): Promise<void> {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    const ext = extname(d.localPath);
+    const stem = d.localPath.slice(0, d.localPath.length - ext.length);
+    const taken = (p: string) =>
+      Array.from(this.downloads.values()).some((o) => o.id !== id && o.localPath === p);
+    for (let n = 1; ; n++) {
+      const candidate = `${stem} (${n})${ext}`;
+      if (taken(candidate) || (await pathExists(candidate))) continue;
+      // Re-check after the await: another rename may have claimed it meanwhile
+      if (taken(candidate)) continue;
+      this.update(id, { localPath: candidate, filename: basename(candidate) });
+      return;
+    }
+  }
+
+  /**
+   * Applies the user's choice to a held download. With applyToAll, the choice
+   * also covers the other waiting and later conflicts of the same batch.
+   */
+  resolveConflict(id: string, action: ConflictAction, applyToAll: boolean = false): void {
+    if (!this.conflicts.some((c) => c.id === id)) return;
+    const batch = this.batches.get(id) ?? id;
+    if (applyToAll) this.batchActions.set(batch, action);
+    const resolved = this.conflicts.filter(
+      (c) => c.id === id || (applyToAll && this.batches.get(c.id) === batch)
+    );
+    this.conflicts = this.conflicts.filter((c) => !resolved.includes(c));
+    this.emitConflicts();
+    for (const c of resolved) this.applyConflictAction(c.id, action).catch(() => {});
+  }
+
+  /** Downloads waiting for an overwrite/resume/skip/rename choice, oldest first */
+  getConflicts(): TransferConflict[] {
+    return [...this.conflicts];
+  }
+
+  private emitConflicts(): void {
+    this.emit('conflicts', [...this.conflicts]);
+  }
+
+  /** Forgets a held download's conflict (cancelled before the user answered) */
+  private dropConflict(id: string): void {
+    if (!this.conflicts.some((c) => c.id === id)) return;
+    this.conflicts = this.conflicts.filter((c) => c.id !== id);
+    this.emitConflicts();
+  }
+
+  /**
+   * Records a directory transfer that failed during its walk (e.g. a listing
+   * error); retrying the row runs the walk again.
+   */
+  private addFailed(
+    entry: Pick<DownloadProgress, 'direction' | 'remotePath' | 'localPath'>,
+    err: unknown,
+    rewalk: () => Promise<void>
+  ): void {
+    const id = randomUUID();
+    const path = entry.direction === 'upload' ? entry.localPath : entry.remotePath;
+    const d: DownloadProgress = {
+      id,
+      ...entry,
+      filename: entry.direction === 'upload' ? basename(path) : path.split('/').filter(Boolean).pop() ?? path,
+      totalSize: 0,
+      downloaded: 0,
+      speed: 0,
+      eta: 0,
+      status: 'failed',
+      error: err instanceof Error ? err.message : 'Directory listing failed',
+    };
+    this.downloads.set(id, d);
+    this.rewalks.set(id, rewalk);
+    this.emit('update', { ...d });
+  }
+
+  /**
+   * Walks a remote directory on its own listing session and queues every
+   * file it finds. Files start transferring while the walk continues. A
+   * directory that cannot be listed becomes one failed row; retrying it walks
+   * only that subtree.
+   */
+  async addDirectory(
+    remotePath: string,
+    localPath: string,
+    recursive: boolean = true,
+    batch: string = this.createBatch()
+  ): Promise<void> {
+    const ftp = ftpRef();
+    if (!ftp) return;
+    let listSession: IRemoteService | null = null;
+    try {
+      listSession = await ftp.openSession();
+      const walk = async (r: string, l: string): Promise<void> => {
+        const files = await ensureDirectoryExists(l)
+          .then(() => listSession!.list(r))
+          .catch((err) => {
+            this.addFailed({ direction: 'download', remotePath: r, localPath: l }, err, () =>
+              this.addDirectory(r, l, recursive, batch)
+            );
+            return null;
+          });
+        if (!files) return;
+        for (const file of files) {
+          const rp = r === '/' ? `/${file.name}` : `${r}/${file.name}`;
+          const lp = join(l, file.name);
+          if (file.type === 'FILE') this.addDownload(rp, lp, batch);
+          else if (file.type === 'DIR' && recursive) await walk(rp, lp);
+        }
+      };
+      await walk(remotePath, localPath);
+    } catch (err) {
+      this.addFailed({ direction: 'download', remotePath, localPath }, err, () =>
+        this.addDirectory(remotePath, localPath, recursive, batch)
+      );
+    } finally {
+      await listSession?.disconnect();
+    }
+  }
+
+  /**
+   * Walks a local directory, creating each remote directory on a separate
+   * session before queueing the files in it. A directory that cannot be read
+   * or created becomes one failed row; retrying it walks only that subtree.
+   */
+  async addUploadDirectory(localPath: string, remotePath: string, resume: boolean = false): Promise<void> {
+    const ftp = ftpRef();
+    if (!ftp) return;
+    let dirSession: IRemoteService | null = null;
+    try {
+      dirSession = await ftp.openSession();
+      const walk = async (l: string, r: string): Promise<void> => {
+        const entries = await dirSession!
+          .ensureDir(r)
+          .then(() => readLocalDirectory(l))
+          .catch((err) => {
+            this.addFailed({ direction: 'upload', remotePath: r, localPath: l }, err, () =>
+              this.addUploadDirectory(l, r, resume)
+            );
+            return null;
+          });
+        if (!entries) return;
+        for (const entry of entries) {
+          const lp = join(l, entry.name);
+          const rp = r === '/' ? `/${entry.name}` : `${r}/${entry.name}`;
+          if (entry.type === 'FILE') this.addUpload(lp, rp, resume);
+          else await walk(lp, rp);
+        }
+      };
+      await walk(localPath, remotePath);
+      // Empty directories never produce a completed file; report the tree itself
+      this.emit('uploaded', remotePath);
+    } catch (err) {
+      this.addFailed({ direction: 'upload', remotePath, localPath }, err, () =>
+        this.addUploadDirectory(localPath, remotePath, resume)
+      );
+    } finally {
+      await dirSession?.disconnect();
+    }
+  }
+
+  /** Starts queued downloads while there are free connection slots */
+  private pump(): void {
+    let started = false;
+    while (this.running.size < this.maxConcurrent && ftpRef()) {
+      // Held downloads keep their place in the queue but cannot start yet
+      const idx = this.queue.findIndex((q) => this.admitted.has(q));
+      if (idx < 0) break;
+      const [id] = this.queue.splice(idx, 1);
+      started = true;
+      const d = this.downloads.get(id);
+      if (!d || d.status !== 'pending') continue;
+      this.running.set(id, null);
+      this.run(id);
+    }
+    if (started) this.emitQueue();
+    if (this.queue.length === 0 && this.running.size === 0) this.closeIdleSessions();
+  }
+
+  /**
+   * Reuses the most recently idle session that is still open; sessions the
+   * server closed or left idle past defaults.sessionIdleMs are dropped.
+   */
+  private async acquireSession(): Promise<IRemoteService> {
+    for (let s = this.idle.pop(); s; s = this.idle.pop()) {
+      if (s.session.isAlive() && Date.now() - s.since < defaults.sessionIdleMs) return s.session;
+      s.session.disconnect().catch(() => {});
+    }
     const ftp = ftpRef();
-    if (!d || d.status !== 'pending' || !ftp) return;
-    this.running.add(id);
-    d.status = 'downloading';
+    if (!ftp) throw new Error('Not connected');
+    return ftp.openSession();
+  }
+
+  private release(session: IRemoteService): void {
+    this.idle.push({ session, since: Date.now() });
+  }
+
+  closeIdleSessions(): void {
+    const sessions = this.idle;
+    this.idle = [];
+    for (const s of sessions) s.session.disconnect().catch(() => {});
+  }
+
+  private emitQueue(): void {
+    this.emit('queue', [...this.queue]);
+  }
+
+  private update(id: string, updates: Partial<DownloadProgress>): void {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    Object.assign(d, updates);
+    this.emit('update', { ...d });
+  }
+
+  private async run(id: string): Promise<void> {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    // Each attempt gets a token; abort() bumps it so a stale attempt can tell
+    const attempt = (this.attempts.get(id) ?? 0) + 1;
+    this.attempts.set(id, attempt);
+    const current = () => this.attempts.get(id) === attempt;
+    const startedAt = d.downloaded;
+    this.update(id, {
+      status: 'downloading',
+      error: undefined,
+      speed: 0,
+      eta: 0,
+      verification: undefined,
+      retry: d.retry ? { ...d.retry, nextAt: undefined } : undefined,
+    });
     const cb = progressCallbacks.get(id);
     const onProg: FTPProgressCallback = (p) => {
-      this.downloads.set(id, { ...p, id });
-      cb?.(p);
+      // Late progress from an aborted transfer must not revive the row
+      if (!current()) return;
+      const { status: _status, ...rest } = p;
+      this.update(id, { ...rest, id, filename: d.filename });
+      cb?.({ ...p, id });
     };
+    let session: IRemoteService | null = null;
     try {
-      await ftp.download(d.remotePath, d.localPath, onProg);
-      const updated = this.downloads.get(id);
-      if (updated) updated.status = 'completed';
+      session = await this.acquireSession();
+      if (!current()) {
+        // paused/cancelled while connecting
+        this.release(session);
+        session = null;
+        return;
+      }
+      this.running.set(id, session);
+      if (d.direction === 'upload') {
+        await session.upload(d.localPath, d.remotePath, onProg, d.resume);
+      } else {
+        await session.download(d.remotePath, d.localPath, onProg, d.resume);
+        if (current() && !(await this.verify(id, session, current))) {
+          // Deleted after a mismatch and re-queued; the session stays reusable
+          this.release(session);
+          session = null;
+          return;
+        }
+      }
+      if (current()) {
+        this.update(id, { status: 'completed', speed: 0, eta: 0 });
+        this.failures.delete(id);
+        if (d.direction === 'upload') this.emit('uploaded', d.remotePath);
+      }
+      this.release(session);
+      session = null;
     } catch (err) {
-      const updated = this.downloads.get(id);
-      if (updated) {
-        updated.status = 'failed';
-        updated.error = err instanceof Error ? err.message : 'Download failed';
+      // Pause/cancel close the session on purpose; that rejection is not a failure
+      if (current() && !this.scheduleRetry(id, err, d.downloaded > startedAt)) {
+        const message = err instanceof Error ? err.message : d.direction === 'upload' ? 'Upload failed' : 'Download failed';
+        const tries = d.retry?.attempt;
+        this.update(id, {
+          status: 'failed',
+          speed: 0,
+          eta: 0,
+          error: tries && isRetryableError(err) ? `${message} (gave up after ${tries} attempts)` : message,
+        });
       }
     } finally {
-      this.running.delete(id);
-      progressCallbacks.delete(id);
+      if (session) session.disconnect().catch(() => {});
+      if (current()) {
+        this.running.delete(id);
+        progressCallbacks.delete(id);
+      }
+      this.pump();
     }
   }
 
+  /**
+   * Puts a transfer that failed with a retryable error back in the queue once
+   * its backoff delay has passed. Returns false when it must fail instead:
+   * permanent error, or the policy's attempts are used up.
+   */
+  private scheduleRetry(id: string, err: unknown, madeProgress: boolean): boolean {
+    const d = this.downloads.get(id);
+    if (!d || !isRetryableError(err)) return false;
+    const policy = getRetryPolicy();
+    const failures = (madeProgress ? 0 : this.failures.get(id) ?? 0) + 1;
+    if (failures >= policy.maxAttempts) return false;
+    this.failures.set(id, failures);
+    const delay = backoffDelay(failures, policy);
+    this.update(id, {
+      status: 'pending',
+      speed: 0,
+      eta: 0,
+      // Data written so far is ours: continue it
+      resume: d.downloaded > 0 ? true : d.resume,
+      error: err instanceof Error ? err.message : undefined,
+      retry: { attempt: failures + 1, maxAttempts: policy.maxAttempts, nextAt: Date.now() + delay },
+    });
+    this.retryTimers.set(
+      id,
+      setTimeout(() => {
+        this.retryTimers.delete(id);
+        if (this.downloads.get(id)?.status !== 'pending') return;
+        this.queue.unshift(id);
+        this.emitQueue();
+        this.pump();
+      }, delay)
+    );
+    return true;
+  }
+
+  private clearRetry(id: string): void {
+    const timer = this.retryTimers.get(id);
+    if (timer) clearTimeout(timer);
+    this.retryTimers.delete(id);
+    this.failures.delete(id);
+  }
+
+  /**
+   * Checks a finished download against the server. Returns false when it must
+   * not be marked completed: aborted meanwhile, or deleted and re-queued after
+   * a mismatch. Throws VerificationError once the re-downloads are used up.
+   */
+  private async verify(id: string, session: IRemoteService, current: () => boolean): Promise<boolean> {
+    const d = this.downloads.get(id);
+    if (!d) return false;
+    this.update(id, { speed: 0, eta: 0, verification: { method: null, status: 'checking' } });
+    const result = await verifyDownload(session, d.remotePath, d.localPath);
+    if (!current()) return false;
+    this.update(id, { verification: result });
+    if (result.status !== 'mismatch' || !this.retryOnMismatch) return true;
+
+    const tries = (this.verifyRetries.get(id) ?? 0) + 1;
+    this.verifyRetries.set(id, tries);
+    await removeFile(d.localPath);
+    const detail = `${formatVerifyMethod(result.method)} mismatch (expected ${result.expected}, got ${result.actual})`;
+    if (tries > defaults.verifyRetries) {
+      throw new VerificationError(`${errorMessages.verifyFailed}: ${detail} after ${tries} attempts`);
+    }
+    if (!current()) return false;
+    this.update(id, { status: 'pending', resume: false, downloaded: 0, totalSize: 0 });
+    this.queue.unshift(id);
+    this.emitQueue();
+    return false;
+  }
+
+  /** Closes the session of a running download (aborts its data connection) */
+  private abort(id: string): void {
+    this.attempts.set(id, (this.attempts.get(id) ?? 0) + 1);
+    const session = this.running.get(id);
+    this.running.delete(id);
+    if (session) session.disconnect().catch(() => {});
+  }
+
   cancelDownload(id: string): void {
     const d = this.downloads.get(id);
     if (!d) return;
-    if (d.status === 'downloading' || d.status === 'paused') {
-      d.status = 'cancelled';
-      this.running.delete(id);
+    if (d.status === 'downloading' || d.status === 'paused' || d.status === 'pending') {
+      this.queue = this.queue.filter((q) => q !== id);
+      this.emitQueue();
+      this.update(id, { status: 'cancelled', speed: 0, eta: 0 });
+      this.abort(id);
+      this.clearRetry(id);
+      this.dropConflict(id);
       progressCallbacks.delete(id);
+      this.pump();
     }
   }
 
-  pauseDownload(_id: string): void {
-    /* minimal impl: no-op */
+  pauseDownload(id: string): void {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    if (d.status === 'downloading' || d.status === 'pending') {
+      this.queue = this.queue.filter((q) => q !== id);
+      this.emitQueue();
+      // Once data was written the target is our own partial file: continue it next time
+      const resume = d.downloaded > 0 ? true : d.resume;
+      this.update(id, { status: 'paused', speed: 0, eta: 0, resume });
+      this.abort(id);
+      this.clearRetry(id);
+      this.pump();
+    }
   }
 
-  resumeDownload(_id: string): void {
-    /* minimal impl: no-op */
+  resumeDownload(id: string): void {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    if (d.status === 'paused') {
+      this.update(id, { status: 'pending' });
+      this.queue.unshift(id);
+      this.emitQueue();
+      this.pump();
+    }
+  }
+
+  /** Re-queues a failed or cancelled transfer; a partial file is resumed */
+  retryDownload(id: string): void {
+    const d = this.downloads.get(id);
+    if (!d) return;
+    const rewalk = this.rewalks.get(id);
+    if (rewalk) {
+      // A directory row has no file to re-queue: walk the subtree that failed again
+      this.removeDownload(id);
+      rewalk().catch(() => {});
+      return;
+    }
+    if (d.status === 'failed' || d.status === 'cancelled') {
+      const resume = d.downloaded > 0 ? true : d.resume;
+      this.verifyRetries.delete(id);
+      this.clearRetry(id);
+      this.update(id, { status: 'pending', error: undefined, speed: 0, eta: 0, resume, retry: undefined });
+      this.queue.push(id);
+      this.emitQueue();
+      // Cancelled while its conflict was open: the local file is still someone else's
+      if (!this.admitted.has(id)) {
+        if (d.direction === 'download') this.checkConflict(id).catch(() => this.admit(id));
+        else this.admit(id);
+      }
+      this.pump();
+    }
+  }
+
+  /** Moves a pending download up (delta < 0) or down (delta > 0) the queue */
+  moveInQueue(id: string, delta: number): void {
+    const from = this.queue.indexOf(id);
+    if (from < 0) return;
+    const to = Math.max(0, Math.min(this.queue.length - 1, from + delta));
+    if (to === from) return;
+    this.queue.splice(from, 1);
+    this.queue.splice(to, 0, id);
+    this.emitQueue();
+  }
+
+  /** Forgets every completed, skipped and cancelled download */
+  clearFinished(): void {
+    for (const d of Array.from(this.downloads.values())) {
+      if (d.status === 'completed' || d.status === 'skipped' || d.status === 'cancelled') this.removeDownload(d.id);
+    }
+  }
+
+  /** Forgets a finished (completed/skipped/failed/cancelled) download */
+  removeDownload(id: string): void {
+    const d = this.downloads.get(id);
+    if (!d || d.status === 'downloading' || d.status === 'pending') return;
+    this.downloads.delete(id);
+    this.batches.delete(id);
+    this.admitted.delete(id);
+    this.verifyRetries.delete(id);
+    this.rewalks.delete(id);
+    this.clearRetry(id);
+    this.emit('remove', id);
   }
 
   getDownloads(): DownloadProgress[] {
-    return Array.from(this.downloads.values());
+    return Array.from(this.downloads.values()).map((d) => ({ ...d }));
+  }
+
+  /** Ids of pending downloads in the order they will start */
+  getQueue(): string[] {
+    return [...this.queue];
   }
 
   onProgress(id: string, callback: FTPProgressCallback): void {
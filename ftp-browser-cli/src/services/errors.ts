@@ -62,6 +62,30 @@ export class DownloadError extends FTPError {
   }
 }
 
+export class UploadError extends FTPError {
+  constructor(message: string = errorMessages.uploadFailed) {
+    super(message, 'UPLOAD_ERROR');
+    this.name = 'UploadError';
+    Object.setPrototypeOf(this, UploadError.prototype);
+  }
+}
+
+export class VerificationError extends FTPError {
+  constructor(message: string = errorMessages.verifyFailed) {
+    super(message, 'VERIFY_ERROR');
+    this.name = 'VerificationError';
+    Object.setPrototypeOf(this, VerificationError.prototype);
+  }
+}
+
+export class FileOperationError extends FTPError {
+  constructor(message: string = errorMessages.operationFailed) {
+    super(message, 'FILE_OPERATION_ERROR');
+    this.name = 'FileOperationError';
+    Object.setPrototypeOf(this, FileOperationError.prototype);
+  }
+}
+
 export class InvalidPathError extends FTPError {
   constructor(message: string = errorMessages.invalidPath) {
     super(message, 'INVALID_PATH_ERROR');
@@ -69,3 +93,86 @@ export class InvalidPathError extends FTPError {
     Object.setPrototypeOf(this, InvalidPathError.prototype);
   }
 }
+
+export class ConfigError extends FTPError {
+  constructor(message: string = errorMessages.invalidConfig) {
+    super(message, 'CONFIG_ERROR');
+    this.name = 'ConfigError';
+    Object.setPrototypeOf(this, ConfigError.prototype);
+  }
+}
+
+export class SearchQueryError extends FTPError {
+  constructor(message: string = errorMessages.invalidQuery) {
+    super(message, 'INVALID_QUERY');
+    this.name = 'SearchQueryError';
+    Object.setPrototypeOf(this, SearchQueryError.prototype);
+  }
+}
+
+export class ArchiveError extends FTPError {
+  constructor(message: string = errorMessages.archive) {
+    super(message, 'ARCHIVE_ERROR');
+    this.name = 'ArchiveError';
+    Object.setPrototypeOf(this, ArchiveError.prototype);
+  }
+}
+
+/** Maps a failed delete/rename/mkdir onto the error types, keeping the server's reason */
+export function toFileOperationError(err: unknown, path: string): FTPError {
+  if (err instanceof FTPError) return err;
+  const reason = err instanceof Error ? err.message : String(err);
+  if (/permission|denied|not allowed/i.test(reason)) return new PermissionError(`${path}: ${reason}`);
+  if (/no such|not found|not exist/i.test(reason)) return new FileNotFoundError(`${path}: ${reason}`);
+  return new FileOperationError(`${path}: ${reason}`);
+}
+
+/** Socket error codes of a dropped or unreachable network, not of a bad request */
+const transientErrnos = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENETDOWN',
+  'EAI_AGAIN',
+]);
+
+const transientMessage =
+  /timeout|timed out|ECONNRESET|ECONNREFUSED|ECONNABORTED|ETIMEDOUT|EPIPE|EHOSTUNREACH|ENETUNREACH|EAI_AGAIN|socket hang up|closed|FIN packet|connection lost|no sftp connection/i;
+
+/** FTP reply code at the start of a message or after a wrapper prefix ("Download failed: 421 ...") */
+const replyCode = /(?:^|:\s+)([1-5]\d\d)(?:[\s-]|$)/;
+
+/**
+ * Whether another attempt can succeed. Retryable: timeouts, dropped or
+ * refused connections and 4xx replies (421 service not available, 425/426
+ * data connection). Permanent: 5xx replies (550 not found, 530 not logged
+ * in), authentication, permission, path and verification errors. Errors
+ * that match neither are treated as permanent.
+ */
+export function isRetryableError(err: unknown): boolean {
+  if (
+    err instanceof AuthenticationError ||
+    err instanceof FileNotFoundError ||
+    err instanceof PermissionError ||
+    err instanceof InvalidPathError ||
+    err instanceof ConfigError ||
+    err instanceof VerificationError ||
+    err instanceof ArchiveError ||
+    err instanceof SearchQueryError
+  )
+    return false;
+  if (err instanceof TimeoutError || err instanceof ConnectionError) return true;
+  if (!(err instanceof Error)) return false;
+  const code = (err as { code?: unknown }).code;
+  // basic-ftp's FTPError carries the numeric reply code
+  if (typeof code === 'number') return code >= 400 && code < 500;
+  if (typeof code === 'string' && transientErrnos.has(code)) return true;
+  // DownloadError/UploadError keep the underlying message
+  const reply = err.message.match(replyCode);
+  if (reply) return reply[1].startsWith('4');
+  return transientMessage.test(err.message);
+}
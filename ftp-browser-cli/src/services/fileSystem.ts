@@ -3,7 +3,7 @@
  */
 
 import { promises as fs } from 'fs';
-import { dirname } from 'path';
+import { dirname, join } from 'path';
 import { InvalidPathError, PermissionError } from './errors.js';
 
 export async function ensureDirectoryExists(path: string): Promise<void> {
@@ -31,6 +31,19 @@ export async function getFileSize(path: string): Promise<number> {
   }
 }
 
+export async function pathExists(path: string): Promise<boolean> {
+  try {
+    await fs.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function removeFile(path: string): Promise<void> {
+  await fs.rm(path, { force: true });
+}
+
 export async function writeFile(
   path: string,
   data: Buffer,
@@ -52,3 +65,24 @@ export async function writeFile(
     throw error;
   }
 }
+
+/**
+ * Lists a local directory for upload. Symlinks are followed; anything that is
+ * neither a file nor a directory (sockets, broken links) is skipped.
+ */
+export async function readLocalDirectory(
+  path: string
+): Promise<{ name: string; type: 'DIR' | 'FILE'; size: number }[]> {
+  const names = await fs.readdir(path);
+  const entries: { name: string; type: 'DIR' | 'FILE'; size: number }[] = [];
+  for (const name of names.sort((a, b) => a.localeCompare(b))) {
+    try {
+      const st = await fs.stat(join(path, name));
+      if (st.isDirectory()) entries.push({ name, type: 'DIR', size: 0 });
+      else if (st.isFile()) entries.push({ name, type: 'FILE', size: st.size });
+    } catch {
+      /* broken link */
+    }
+  }
+  return entries;
+}
@@ -1,11 +1,12 @@
 /**
- * FTP client service using basic-ftp.
+ * FTP client service using basic-ftp, plus the protocol-neutral helpers
+ * (service factory, separate-session downloads) shared with SFTPService.
  */
 
-import { Client, type FileInfo as FTPFileInfo } from 'basic-ftp';
+import { Client, parseList, type FileInfo as FTPFileInfo } from 'basic-ftp';
 import { EventEmitter } from 'events';
 import { Writable } from 'stream';
-import { dirname, join } from 'path';
+import { dirname, join, basename } from 'path';
 import type {
   FTPConfig,
   FileItem,
@@ -14,9 +15,12 @@ import type {
   FTPEventType,
   FTPProgressCallback,
   FTPErrorCallback,
-  IFTPService,
+  HashAlgorithm,
+  IRemoteService,
+  RemoteChecksum,
 } from '../types/index.js';
 import { defaults, errorMessages } from '../utils/constants.js';
+import { formatOctalMode } from '../utils/format.js';
 import { ensureDirectoryExists, getFileSize } from './fileSystem.js';
 import {
   ConnectionError,
@@ -24,17 +28,81 @@ import {
   FileNotFoundError,
   TimeoutError,
   DownloadError,
+  UploadError,
+  isRetryableError,
+  toFileOperationError,
 } from './errors.js';
+import { withRetry } from './retry.js';
+import { createSFTPService } from './sftpClient.js';
 
-function formatPermissions(
-  p: { user: number; group: number; world: number },
-  isDir: boolean,
-  isLink: boolean
-): string {
-  const tc = isLink ? 'l' : isDir ? 'd' : '-';
-  const rwx = (n: number) =>
-    (n & 4 ? 'r' : '-') + (n & 2 ? 'w' : '-') + (n & 1 ? 'x' : '-');
-  return tc + rwx(p.user) + rwx(p.group) + rwx(p.world);
+/** Setuid, setgid and sticky bits of listed entries; basic-ftp folds them into plain execute */
+const specialBits = new WeakMap<FTPFileInfo, number>();
+
+const UNIX_FLAGS = /^[-dlbcps]([r-][w-][xsS-][r-][w-][xsS-][r-][w-][xtT-])/;
+const MLSD_MODE = /(?:^|;)unix\.mode=0*([0-7]{4});/i;
+
+/**
+ * basic-ftp's parser, plus the special bits from the raw lines: s/S/t/T in a
+ * LIST line, a fourth digit in an MLSD UNIX.mode fact.
+ */
+function parseListWithSpecialBits(rawList: string): FTPFileInfo[] {
+  const files = parseList(rawList);
+  const bits = new Map<string, number>();
+  for (const line of rawList.split(/\r?\n/)) {
+    const flags = line.match(UNIX_FLAGS)?.[1];
+    const mode = line.match(MLSD_MODE)?.[1];
+    const special = flags
+      ? (/[sS]/.test(flags[2]) ? 0o4000 : 0) | (/[sS]/.test(flags[5]) ? 0o2000 : 0) | (/[tT]/.test(flags[8]) ? 0o1000 : 0)
+      : mode
+        ? parseInt(mode, 8) & 0o7000
+        : 0;
+    // Rare: parse the line on its own to learn the entry's name
+    const name = special ? parseList(line)[0]?.name : undefined;
+    if (name !== undefined) bits.set(name, special);
+  }
+  for (const f of files) {
+    const special = bits.get(f.name);
+    if (special) specialBits.set(f, special);
+  }
+  return files;
+}
+
+function createClient(timeout: number): Client {
+  const client = new Client(timeout);
+  client.ftp.verbose = false;
+  client.parseList = parseListWithSpecialBits;
+  return client;
+}
+
+/** "drwsr-x--T" style permissions of a listed entry, or undefined when the server gave none */
+function formatPermissions(f: FTPFileInfo): string | undefined {
+  const p = f.permissions;
+  if (!p) return undefined;
+  const special = specialBits.get(f) ?? 0;
+  const tc = f.isSymbolicLink ? 'l' : f.isDirectory ? 'd' : '-';
+  const rwx = (n: number, set: boolean, mark: string) =>
+    (n & 4 ? 'r' : '-') + (n & 2 ? 'w' : '-') + (set ? (n & 1 ? mark : mark.toUpperCase()) : n & 1 ? 'x' : '-');
+  return (
+    tc +
+    rwx(p.user, (special & 0o4000) !== 0, 's') +
+    rwx(p.group, (special & 0o2000) !== 0, 's') +
+    rwx(p.world, (special & 0o1000) !== 0, 't')
+  );
+}
+
+/** Hash commands in order of preference: HASH (draft-bryan-ftpext-hash) names, X* commands */
+const hashAlgorithms: { algorithm: HashAlgorithm; hashName: string; command: string; hexLength: number }[] = [
+  { algorithm: 'sha256', hashName: 'SHA-256', command: 'XSHA256', hexLength: 64 },
+  { algorithm: 'sha1', hashName: 'SHA-1', command: 'XSHA1', hexLength: 40 },
+  { algorithm: 'md5', hashName: 'MD5', command: 'XMD5', hexLength: 32 },
+];
+
+/** Picks the hex digest of the expected length out of a HASH/X* reply */
+function parseHashReply(message: string, hexLength: number): string | null {
+  const token = message
+    .split(/\s+/)
+    .find((t) => t.length === hexLength && /^[0-9a-f]+$/i.test(t));
+  return token ? token.toLowerCase() : null;
 }
 
 function toFileItem(f: FTPFileInfo): FileItem {
@@ -44,22 +112,20 @@ function toFileItem(f: FTPFileInfo): FileItem {
     size: f.size ?? null,
     date: f.modifiedAt ? f.modifiedAt.toISOString() : (f.rawModifiedAt || null),
     target: f.isSymbolicLink ? f.link : undefined,
-    permissions: f.permissions
-      ? formatPermissions(f.permissions, f.isDirectory, f.isSymbolicLink)
-      : undefined,
+    permissions: formatPermissions(f),
   };
 }
 
-export class FTPService extends EventEmitter implements IFTPService {
+export class FTPService extends EventEmitter implements IRemoteService {
   private client: Client;
   private cfg: FTPConfig;
   private isConnected = false;
+  private featureCache: Map<string, string> | null = null;
 
   constructor(config: FTPConfig) {
     super();
-    this.client = new Client(config.timeout ?? defaults.ftpTimeout);
+    this.client = createClient(config.timeout ?? defaults.ftpTimeout);
     this.cfg = config;
-    this.client.ftp.verbose = false;
   }
 
   /** Expose config so download clients can reuse connection details */
@@ -69,8 +135,7 @@ export class FTPService extends EventEmitter implements IFTPService {
 
   /** Create a separate FTP client for download operations */
   async createDownloadClient(): Promise<Client> {
-    const dlClient = new Client(this.cfg.timeout ?? defaults.ftpTimeout);
-    dlClient.ftp.verbose = false;
+    const dlClient = createClient(this.cfg.timeout ?? defaults.ftpTimeout);
     await dlClient.access({
       host: this.cfg.host,
       port: this.cfg.port ?? defaults.ftpPort,
@@ -81,7 +146,14 @@ export class FTPService extends EventEmitter implements IFTPService {
     return dlClient;
   }
 
-  /** Attempt to reconnect the browsing client if connection was lost */
+  /** Open a second connected FTPService with the same config */
+  async openSession(): Promise<IRemoteService> {
+    const session = new FTPService(this.cfg);
+    await session.connect();
+    return session;
+  }
+
+  /** Attempt to reconnect the browsing client if connection was lost (with retry/backoff) */
   private async ensureConnected(): Promise<void> {
     if (this.isConnected) {
       try {
@@ -91,17 +163,20 @@ export class FTPService extends EventEmitter implements IFTPService {
         // connection lost, try reconnect
       }
     }
-    try {
-      this.client.close();
-    } catch { /* ignore */ }
-    this.client = new Client(this.cfg.timeout ?? defaults.ftpTimeout);
-    this.client.ftp.verbose = false;
-    await this.client.access({
-      host: this.cfg.host,
-      port: this.cfg.port ?? defaults.ftpPort,
-      user: this.cfg.user ?? defaults.ftpUser,
-      password: this.cfg.password ?? defaults.ftpPassword,
-      secure: this.cfg.secure ?? defaults.ftpSecure,
+    this.isConnected = false;
+    await withRetry(async () => {
+      try {
+        this.client.close();
+      } catch { /* ignore */ }
+      this.client = createClient(this.cfg.timeout ?? defaults.ftpTimeout);
+      this.featureCache = null;
+      await this.client.access({
+        host: this.cfg.host,
+        port: this.cfg.port ?? defaults.ftpPort,
+        user: this.cfg.user ?? defaults.ftpUser,
+        password: this.cfg.password ?? defaults.ftpPassword,
+        secure: this.cfg.secure ?? defaults.ftpSecure,
+      });
     });
     this.isConnected = true;
   }
@@ -135,6 +210,10 @@ export class FTPService extends EventEmitter implements IFTPService {
     }
   }
 
+  isAlive(): boolean {
+    return this.isConnected && !this.client.closed;
+  }
+
   async disconnect(): Promise<void> {
     try {
       this.client.close();
@@ -145,8 +224,23 @@ export class FTPService extends EventEmitter implements IFTPService {
     }
   }
 
+  /** Lists a directory, retrying transient failures (421, timeouts, dropped connections) */
   async list(path: string): Promise<FileItem[]> {
-    await this.ensureConnected();
+    // A failed reconnect has used its own retries; do not multiply them
+    let reconnectFailed = false;
+    return withRetry(
+      async () => {
+        await this.ensureConnected().catch((err) => {
+          reconnectFailed = true;
+          throw err;
+        });
+        return this.listOnce(path);
+      },
+      { shouldRetry: (err) => !reconnectFailed && isRetryableError(err) }
+    );
+  }
+
+  private async listOnce(path: string): Promise<FileItem[]> {
     try {
       const raw = await this.client.list(path);
       return raw
@@ -167,7 +261,8 @@ export class FTPService extends EventEmitter implements IFTPService {
   async download(
     remotePath: string,
     localPath: string,
-    onProgress?: FTPProgressCallback
+    onProgress?: FTPProgressCallback,
+    resume: boolean = false
   ): Promise<void> {
     if (!this.isConnected) throw new ConnectionError('Not connected to FTP server');
     await ensureDirectoryExists(dirname(localPath));
@@ -177,7 +272,8 @@ export class FTPService extends EventEmitter implements IFTPService {
     } catch {
       /* size not supported */
     }
-    const existingSize = await getFileSize(localPath);
+    // Only continue a local file when asked to: it may be an unrelated file with the same name
+    const existingSize = resume ? await getFileSize(localPath) : 0;
     const startOffset =
       existingSize > 0 && totalSize > 0 && totalSize > existingSize ? existingSize : 0;
     const filename = remotePath.split('/').filter(Boolean).pop() ?? remotePath;
@@ -185,6 +281,24 @@ export class FTPService extends EventEmitter implements IFTPService {
     const startTime = Date.now();
     let lastEmit = startTime;
 
+    if (resume && totalSize > 0 && existingSize === totalSize) {
+      // Already complete locally
+      const done: DownloadProgress = {
+        id: filename,
+        filename,
+        remotePath,
+        localPath,
+        totalSize,
+        downloaded: totalSize,
+        speed: 0,
+        eta: 0,
+        status: 'completed',
+      };
+      onProgress?.(done);
+      this.emit('progress', done);
+      return;
+    }
+
     this.client.trackProgress((info) => {
       downloaded = startOffset + info.bytesOverall;
       const now = Date.now();
@@ -258,6 +372,203 @@ export class FTPService extends EventEmitter implements IFTPService {
     }
   }
 
+  /**
+   * Upload a local file. With resume, a shorter remote file is appended to
+   * (APPE from the remote size) instead of being overwritten.
+   */
+  async upload(
+    localPath: string,
+    remotePath: string,
+    onProgress?: FTPProgressCallback,
+    resume: boolean = false
+  ): Promise<void> {
+    if (!this.isConnected) throw new ConnectionError('Not connected to FTP server');
+    const totalSize = await getFileSize(localPath);
+    let remoteSize = 0;
+    if (resume) {
+      try {
+        remoteSize = await this.client.size(remotePath);
+      } catch {
+        /* not there yet, or SIZE not supported */
+      }
+    }
+    const startOffset = remoteSize > 0 && remoteSize < totalSize ? remoteSize : 0;
+    const filename = basename(localPath);
+    let uploaded = startOffset;
+    const startTime = Date.now();
+    let lastEmit = startTime;
+    const progress = (status: DownloadProgress['status'], speed: number, eta: number): DownloadProgress => ({
+      id: filename,
+      direction: 'upload',
+      filename,
+      remotePath,
+      localPath,
+      totalSize,
+      downloaded: uploaded,
+      speed,
+      eta,
+      status,
+    });
+
+    if (resume && totalSize > 0 && remoteSize === totalSize) {
+      // Already complete on the server
+      const done = progress('completed', 0, 0);
+      onProgress?.(done);
+      this.emit('progress', done);
+      return;
+    }
+
+    this.client.trackProgress((info) => {
+      uploaded = startOffset + info.bytesOverall;
+      const now = Date.now();
+      const elapsed = (now - startTime) / 1000;
+      if (now - lastEmit < 200) return;
+      lastEmit = now;
+      const speed = elapsed > 0 ? (uploaded - startOffset) / elapsed : 0;
+      const remaining = totalSize - uploaded;
+      const eta = speed > 0 && remaining > 0 ? remaining / speed : 0;
+      const p = progress('downloading', speed, eta);
+      onProgress?.(p);
+      this.emit('progress', p);
+    });
+
+    try {
+      if (startOffset > 0) {
+        await this.client.appendFrom(localPath, remotePath, { localStart: startOffset });
+      } else {
+        await this.client.uploadFrom(localPath, remotePath);
+      }
+      uploaded = totalSize;
+      const done = progress('completed', 0, 0);
+      onProgress?.(done);
+      this.emit('progress', done);
+    } catch (err) {
+      this.client.trackProgress(() => {});
+      if (err instanceof Error && err.message.includes('ENOENT'))
+        throw new FileNotFoundError(`${errorMessages.notFound}: ${localPath}`);
+      throw new UploadError(
+        `${errorMessages.uploadFailed}: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    }
+    this.client.trackProgress(() => {});
+  }
+
+  async ensureDir(path: string): Promise<void> {
+    await this.ensureConnected();
+    try {
+      // basic-ftp's ensureDir also changes into the directory; all paths here are absolute
+      await this.client.ensureDir(path);
+    } catch (err) {
+      throw new UploadError(
+        `Cannot create directory ${path}: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await this.client.send(`MKD ${await this.client.protectWhitespace(path)}`);
+    } catch (err) {
+      throw toFileOperationError(err, path);
+    }
+  }
+
+  async remove(path: string, isDirectory: boolean): Promise<void> {
+    await this.ensureConnected();
+    try {
+      // removeDir empties the tree first and returns to the working directory
+      if (isDirectory) await this.client.removeDir(path);
+      else await this.client.remove(path);
+    } catch (err) {
+      throw toFileOperationError(err, path);
+    }
+  }
+
+  async rename(fromPath: string, toPath: string): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await this.client.rename(fromPath, toPath);
+    } catch (err) {
+      throw toFileOperationError(err, fromPath);
+    }
+  }
+
+  async chmod(path: string, mode: number): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await this.client.send(`SITE CHMOD ${formatOctalMode(mode)} ${await this.client.protectWhitespace(path)}`);
+    } catch (err) {
+      throw toFileOperationError(err, path);
+    }
+  }
+
+  async size(path: string): Promise<number> {
+    await this.ensureConnected();
+    try {
+      return await this.client.size(path);
+    } catch (err) {
+      if (err instanceof Error && (err.message.includes('not found') || err.message.includes('550')))
+        throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async modifiedTime(path: string): Promise<Date | null> {
+    await this.ensureConnected();
+    if (!(await this.features()).has('MDTM')) return null;
+    try {
+      return await this.client.lastMod(path);
+    } catch (err) {
+      if (err instanceof Error && (err.message.includes('not found') || err.message.includes('550')))
+        throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  /** FEAT reply (keys upper-cased), fetched once per connection */
+  private async features(): Promise<Map<string, string>> {
+    if (!this.featureCache) {
+      const raw = await this.client.features();
+      this.featureCache = new Map(Array.from(raw, ([k, v]) => [k.toUpperCase(), v]));
+    }
+    return this.featureCache;
+  }
+
+  /**
+   * Server-side hash using the strongest advertised method: HASH (selecting
+   * the algorithm with OPTS HASH), then XSHA256, XSHA1, XMD5.
+   */
+  async checksum(path: string): Promise<RemoteChecksum | null> {
+    await this.ensureConnected();
+    const feat = await this.features();
+    const target = await this.client.protectWhitespace(path);
+    const hashFeat = feat.get('HASH');
+    if (hashFeat !== undefined) {
+      // e.g. "SHA-256*;SHA-1;MD5" — '*' marks the currently selected algorithm
+      const offered = hashFeat.split(';').map((a) => a.trim().toUpperCase());
+      const selected = offered.find((a) => a.endsWith('*'))?.slice(0, -1);
+      for (const h of hashAlgorithms) {
+        if (!offered.includes(h.hashName) && selected !== h.hashName) continue;
+        if (selected !== h.hashName) {
+          const opts = await this.client.sendIgnoringError(`OPTS HASH ${h.hashName}`);
+          if (opts.code >= 400) continue;
+        }
+        const res = await this.client.sendIgnoringError(`HASH ${target}`);
+        const value = res.code < 400 ? parseHashReply(res.message, h.hexLength) : null;
+        if (value) return { algorithm: h.algorithm, value };
+        break;
+      }
+    }
+    for (const h of hashAlgorithms) {
+      if (!feat.has(h.command)) continue;
+      const res = await this.client.sendIgnoringError(`${h.command} ${target}`);
+      const value = res.code < 400 ? parseHashReply(res.message, h.hexLength) : null;
+      if (value) return { algorithm: h.algorithm, value };
+    }
+    return null;
+  }
+
   async getFileInfo(path: string): Promise<FileInfo> {
     await this.ensureConnected();
     try {
@@ -269,9 +580,7 @@ export class FTPService extends EventEmitter implements IFTPService {
         type: (f.isSymbolicLink ? 'LINK' : f.isDirectory ? 'DIR' : 'FILE') as FileInfo['type'],
         size: f.size ?? null,
         date: f.modifiedAt ? f.modifiedAt.toISOString() : (f.rawModifiedAt || null),
-        permissions: f.permissions
-          ? formatPermissions(f.permissions, f.isDirectory, f.isSymbolicLink)
-          : undefined,
+        permissions: formatPermissions(f),
         target: f.isSymbolicLink ? f.link : undefined,
       };
     } catch (err) {
@@ -307,6 +616,54 @@ export class FTPService extends EventEmitter implements IFTPService {
     }
   }
 
+  /**
+   * Bytes [offset, offset + length) via REST + RETR. A RETR cannot be stopped
+   * halfway without confusing the control connection, so each read gets its
+   * own connection, closed as soon as enough has arrived.
+   */
+  async readRange(path: string, offset: number, length: number): Promise<Buffer> {
+    if (length <= 0) return Buffer.alloc(0);
+    return withRetry(async () => {
+      const client = await this.createDownloadClient();
+      const chunks: Buffer[] = [];
+      let total = 0;
+      const sink = new Writable({
+        write(chunk: Buffer, _enc, cb) {
+          const rem = length - total;
+          chunks.push(chunk.subarray(0, rem));
+          total += Math.min(chunk.length, rem);
+          cb(total >= length ? new Error('Range complete') : null);
+        },
+      });
+      try {
+        await client.downloadTo(sink, path, offset);
+      } catch (err) {
+        if (total < length) {
+          if (err instanceof Error && (err.message.includes('not found') || err.message.includes('550')))
+            throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+          throw err;
+        }
+      } finally {
+        client.close();
+      }
+      return Buffer.concat(chunks, total);
+    });
+  }
+
+  /** RETR (REST at offset) into sink on a separate connection, closed afterwards */
+  async readStream(path: string, sink: Writable, offset = 0): Promise<void> {
+    const client = await withRetry(() => this.createDownloadClient());
+    try {
+      await client.downloadTo(sink, path, offset);
+    } catch (err) {
+      if (err instanceof Error && (err.message.includes('not found') || err.message.includes('550')))
+        throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    } finally {
+      client.close();
+    }
+  }
+
   async search(path: string, pattern: string, maxDepth?: number, onMatch?: (item: FileItem) => void): Promise<FileItem[]> {
     await this.ensureConnected();
     const depthLimit = maxDepth ?? defaults.maxSearchDepth;
@@ -347,6 +704,7 @@ export class FTPService extends EventEmitter implements IFTPService {
 
 export function createFTPService(config: FTPConfig): FTPService {
   return new FTPService({
+    protocol: 'ftp',
     host: config.host,
     port: config.port ?? defaults.ftpPort,
     user: config.user ?? defaults.ftpUser,
@@ -358,115 +716,9 @@ export function createFTPService(config: FTPConfig): FTPService {
 }
 
 /**
- * Download a file using a separate FTP client to avoid blocking browse operations.
- * Creates a new connection, downloads, then closes.
- */
-export async function downloadWithSeparateClient(
-  service: FTPService,
-  remotePath: string,
-  localPath: string,
-  onProgress?: FTPProgressCallback,
-): Promise<void> {
-  const dlClient = await service.createDownloadClient();
-  await ensureDirectoryExists(dirname(localPath));
-
-  let totalSize = 0;
-  try {
-    totalSize = await dlClient.size(remotePath);
-  } catch { /* size not supported */ }
-
-  const existingSize = await getFileSize(localPath);
-  const startOffset =
-    existingSize > 0 && totalSize > 0 && totalSize > existingSize ? existingSize : 0;
-  const filename = remotePath.split('/').filter(Boolean).pop() ?? remotePath;
-  let downloaded = startOffset;
-  const startTime = Date.now();
-  let lastEmit = startTime;
-
-  dlClient.trackProgress((info) => {
-    downloaded = startOffset + info.bytesOverall;
-    const now = Date.now();
-    const elapsed = (now - startTime) / 1000;
-    if (now - lastEmit < 200) return;
-    lastEmit = now;
-    const speed = elapsed > 0 ? downloaded / elapsed : 0;
-    const remaining = totalSize > 0 ? totalSize - downloaded : 0;
-    const eta = speed > 0 && remaining > 0 ? remaining / speed : 0;
-    const p: DownloadProgress = {
-      id: filename,
-      filename,
-      remotePath,
-      localPath,
-      totalSize,
-      downloaded,
-      speed,
-      eta,
-      status: 'downloading',
-    };
-    onProgress?.(p);
-  });
-
-  try {
-    if (startOffset > 0) {
-      await dlClient.downloadTo(localPath, remotePath, startOffset);
-    } else {
-      await dlClient.downloadTo(localPath, remotePath);
-    }
-    const done: DownloadProgress = {
-      id: filename,
-      filename,
-      remotePath,
-      localPath,
-      totalSize: downloaded,
-      downloaded,
-      speed: 0,
-      eta: 0,
-      status: 'completed',
-    };
-    onProgress?.(done);
-  } finally {
-    dlClient.trackProgress(() => {});
-    dlClient.close();
-  }
-}
-
-/**
- * Download a directory recursively using separate clients.
- * Creates a dedicated listing client so it never blocks the main browsing client.
+ * Create the remote service matching config.protocol (FTP/FTPS or SFTP).
  */
-export async function downloadDirectoryWithSeparateClient(
-  service: FTPService,
-  remotePath: string,
-  localPath: string,
-  onProgress?: FTPProgressCallback,
-): Promise<void> {
-  const listClient = await service.createDownloadClient();
-  try {
-    await downloadDirRecursive(service, listClient, remotePath, localPath, onProgress);
-  } finally {
-    listClient.close();
-  }
-}
-
-async function downloadDirRecursive(
-  service: FTPService,
-  listClient: Client,
-  remotePath: string,
-  localPath: string,
-  onProgress?: FTPProgressCallback,
-): Promise<void> {
-  await ensureDirectoryExists(localPath);
-  const raw = await listClient.list(remotePath);
-  const files = raw
-    .filter((f) => f.name !== '.' && f.name !== '..')
-    .map(toFileItem);
-  for (const file of files) {
-    const r = remotePath === '/' ? `/${file.name}` : `${remotePath}/${file.name}`;
-    const l = join(localPath, file.name);
-    if (file.type === 'DIR') {
-      await downloadDirRecursive(service, listClient, r, l, onProgress);
-    } else if (file.type === 'FILE') {
-      await downloadWithSeparateClient(service, r, l, onProgress);
-    }
-  }
+export function createRemoteService(config: FTPConfig): IRemoteService {
+  if (config.protocol === 'sftp') return createSFTPService(config);
+  return createFTPService(config);
 }
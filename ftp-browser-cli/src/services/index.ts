@@ -1,5 +1,15 @@
-export { FTPService, createFTPService, downloadWithSeparateClient, downloadDirectoryWithSeparateClient } from './ftpClient.js';
+export {
+  FTPService,
+  createFTPService,
+  createRemoteService,
+} from './ftpClient.js';
+export { SFTPService, createSFTPService } from './sftpClient.js';
 export { FileParser, createFileParser } from './fileParser.js';
 export { downloadManager, setFtpService } from './downloadManager.js';
 export { SearchService, createSearchService } from './searchService.js';
+export { parseSearchQuery, matchesQuery, resolveSearchLimits, applyScope, excludeMatcher } from './searchQuery.js';
+export { RemoteIndex, createRemoteIndex, getCacheDir, getIndexPath } from './remoteIndex.js';
+export { loadProfiles, findProfile, profileToConfig, getConfigDir, getProfilesPath, expandHome } from './profiles.js';
+export { resolveCredentials, lookupNetrc, parseNetrc, readPasswordFile } from './secrets.js';
+export { setRetryPolicy, getRetryPolicy, withRetry, backoffDelay } from './retry.js';
 export * from './errors.js';
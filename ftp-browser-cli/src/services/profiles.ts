@@ -0,0 +1,139 @@
+/**
+ * Connection profiles: load named profiles from ~/.config/ftp-browser/profiles.json.
+ *
+ * File format (object keyed by profile name):
+ *   {
+ *     "build": { "host": "172.17.201.151", "user": "admin", "remotePath": "/builds" },
+ *     "logs":  { "protocol": "sftp", "host": "logs.example.com", "downloadDir": "~/logs",
+ *                "search": { "maxDepth": 8, "maxResults": 5000, "timeout": 300, "exclude": ["archive"] } }
+ *   }
+ *
+ * "search" overrides the search limits (timeout in seconds, 0 for none); its
+ * "exclude" replaces the default globs. "index": true crawls the host into
+ * the remote index on connect.
+ */
+
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import type { ConnectionProfile, FTPConfig, RemoteProtocol, SearchLimits } from '../types/index.js';
+import { defaults, errorMessages, paths } from '../utils/constants.js';
+import { ConfigError } from './errors.js';
+
+/** Config directory: $XDG_CONFIG_HOME/ftp-browser or ~/.config/ftp-browser */
+export function getConfigDir(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(base, paths.configDirName);
+}
+
+export function getProfilesPath(): string {
+  return join(getConfigDir(), paths.profilesFile);
+}
+
+/** Expands a leading ~ and resolves relative to cwd */
+export function expandHome(p: string): string {
+  if (p === '~') return homedir();
+  if (p.startsWith('~/')) return join(homedir(), p.slice(2));
+  return resolve(process.cwd(), p);
+}
+
+function validateSearch(name: string, raw: unknown): Partial<SearchLimits> | undefined {
+  if (raw === undefined) return undefined;
+  const invalid = (what: string) =>
+    new ConfigError(`${errorMessages.invalidConfig}: profile "${name}" has an invalid search${what}`);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw invalid('');
+  const r = raw as Record<string, unknown>;
+  const count = (key: string, min: number) => {
+    const v = r[key];
+    if (v === undefined) return undefined;
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < min) throw invalid(`.${key}`);
+    return v;
+  };
+  if (r.exclude !== undefined && (!Array.isArray(r.exclude) || r.exclude.some((g) => typeof g !== 'string'))) {
+    throw invalid('.exclude');
+  }
+  const timeout = count('timeout', 0);
+  return {
+    maxDepth: count('maxDepth', 1),
+    maxResults: count('maxResults', 1),
+    timeoutMs: timeout === undefined ? undefined : timeout * 1000,
+    exclude: r.exclude as string[] | undefined,
+  };
+}
+
+function validateProfile(name: string, raw: unknown): ConnectionProfile {
+  if (!raw || typeof raw !== 'object') {
+    throw new ConfigError(`${errorMessages.invalidConfig}: profile "${name}" must be an object`);
+  }
+  const r = raw as Record<string, unknown>;
+  if (typeof r.host !== 'string' || !r.host.trim()) {
+    throw new ConfigError(`${errorMessages.invalidConfig}: profile "${name}" has no host`);
+  }
+  const protocol = r.protocol ?? defaults.protocol;
+  if (protocol !== 'ftp' && protocol !== 'sftp') {
+    throw new ConfigError(`${errorMessages.invalidConfig}: profile "${name}" has unknown protocol "${String(protocol)}"`);
+  }
+  if (r.port !== undefined && (typeof r.port !== 'number' || r.port < 1 || r.port > 65535)) {
+    throw new ConfigError(`${errorMessages.invalidConfig}: profile "${name}" has an invalid port`);
+  }
+  return {
+    name,
+    protocol: protocol as RemoteProtocol,
+    host: r.host.trim(),
+    port: r.port as number | undefined,
+    user: typeof r.user === 'string' ? r.user : undefined,
+    secure: r.secure === true,
+    remotePath: typeof r.remotePath === 'string' ? r.remotePath : undefined,
+    downloadDir: typeof r.downloadDir === 'string' ? r.downloadDir : undefined,
+    search: validateSearch(name, r.search),
+    index: r.index === true,
+  };
+}
+
+/**
+ * Loads all profiles, sorted by name. A missing file yields an empty list;
+ * malformed JSON or invalid entries throw ConfigError.
+ */
+export async function loadProfiles(file: string = getProfilesPath()): Promise<ConnectionProfile[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException)?.code === 'ENOENT') return [];
+    throw new ConfigError(`${errorMessages.invalidConfig}: ${(e as Error).message}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ConfigError(`${errorMessages.invalidConfig}: ${file}: ${(e as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ConfigError(`${errorMessages.invalidConfig}: ${file} must contain an object of profiles`);
+  }
+  return Object.entries(data as Record<string, unknown>)
+    .map(([name, raw]) => validateProfile(name, raw))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function findProfile(name: string, file?: string): Promise<ConnectionProfile> {
+  const profiles = await loadProfiles(file);
+  const profile = profiles.find((p) => p.name === name);
+  if (!profile) throw new ConfigError(`${errorMessages.profileNotFound}: ${name}`);
+  return profile;
+}
+
+/** Builds an FTPConfig from a profile; missing fields fall back to defaults */
+export function profileToConfig(profile: ConnectionProfile): FTPConfig {
+  const protocol = profile.protocol ?? defaults.protocol;
+  return {
+    protocol,
+    host: profile.host,
+    port: profile.port ?? (protocol === 'sftp' ? defaults.sftpPort : defaults.ftpPort),
+    user: profile.user ?? defaults.ftpUser,
+    password: defaults.ftpPassword,
+    secure: protocol === 'ftp' && (profile.secure ?? defaults.ftpSecure),
+    timeout: defaults.ftpTimeout,
+    passive: defaults.ftpPassive,
+  };
+}
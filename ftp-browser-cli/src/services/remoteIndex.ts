@@ -0,0 +1,307 @@
+/**
+ * Remote index: the file tree of one host (names, types, sizes, dates) kept
+ * in a cache file under $XDG_CACHE_HOME/ftp-browser/index, one per protocol,
+ * user, host and port. Every directory remembers when it was listed, so the
+ * tree is refreshed a directory at a time: by a background crawl over
+ * connections of its own, by re-listing one directory, or from browsing.
+ * Emits 'change' with the new IndexStatus (while crawling, at most every
+ * defaults.indexNotifyMs).
+ *
+ * File format:
+ *   { "version": 1, "host": "ftp.example.com", "user": "anonymous",
+ *     "directories": {
+ *       "/pub": { "listedAt": 1718000000000, "entries": [["README", "FILE", 1234, "2024-06-01T10:00:00.000Z"]] } } }
+ */
+
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import type {
+  FileItem,
+  FileType,
+  FTPConfig,
+  IndexCrawl,
+  IndexEntry,
+  IndexStatus,
+  IRemoteService,
+} from '../types/index.js';
+import { defaults, paths } from '../utils/constants.js';
+import { excludeMatcher } from './searchQuery.js';
+
+const FORMAT_VERSION = 1;
+
+type CachedEntry = [name: string, type: FileType, size: number | null, date: string | null];
+
+interface Directory {
+  listedAt: number;
+  entries: FileItem[];
+}
+
+const childPath = (dir: string, name: string) => (dir === paths.root ? `/${name}` : `${dir}/${name}`);
+
+/** Cache directory: $XDG_CACHE_HOME/ftp-browser or ~/.cache/ftp-browser */
+export function getCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, paths.configDirName);
+}
+
+/** Cache file of a host, named by protocol, user, host and port */
+export function getIndexPath(config: FTPConfig): string {
+  const protocol = config.protocol ?? defaults.protocol;
+  const port = config.port ?? (protocol === 'sftp' ? defaults.sftpPort : defaults.ftpPort);
+  const key = `${protocol}-${config.user || defaults.ftpUser}@${config.host}-${port}`.replace(/[^\w.@-]/g, '_');
+  return join(getCacheDir(), paths.indexDirName, `${key}.json`);
+}
+
+export class RemoteIndex extends EventEmitter {
+  private dirs = new Map<string, Directory>();
+  private loaded = false;
+  private enabled = false;
+  private crawlStatus: IndexStatus['crawl'] = null;
+  private error: string | null = null;
+  private version = 0;
+  private cancelled = false;
+  private wake: () => void = () => {};
+  private notifyTimer: NodeJS.Timeout | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private config: FTPConfig,
+    private file: string = getIndexPath(config)
+  ) {
+    super();
+  }
+
+  status(): IndexStatus {
+    let entries = 0;
+    let oldest: number | null = null;
+    for (const dir of this.dirs.values()) {
+      entries += dir.entries.length;
+      if (oldest === null || dir.listedAt < oldest) oldest = dir.listedAt;
+    }
+    return {
+      loaded: this.loaded,
+      enabled: this.enabled,
+      directories: this.dirs.size,
+      entries,
+      oldest,
+      crawl: this.crawlStatus ? { ...this.crawlStatus } : null,
+      error: this.error,
+      version: this.version,
+    };
+  }
+
+  /** Every indexed path, in the order their directories were first listed */
+  entries(): IndexEntry[] {
+    const out: IndexEntry[] = [];
+    for (const [path, dir] of this.dirs) {
+      for (const e of dir.entries) out.push({ ...e, path, listedAt: dir.listedAt });
+    }
+    return out;
+  }
+
+  /** Reads the cache file; without one the index stays empty and disabled until a crawl */
+  async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.file, 'utf-8'));
+      if (data?.version !== FORMAT_VERSION || !data.directories || typeof data.directories !== 'object') {
+        throw new Error('unknown format');
+      }
+      const directories = data.directories as Record<string, { listedAt: number; entries: CachedEntry[] }>;
+      for (const [path, dir] of Object.entries(directories)) {
+        // Listed while the file was read: that listing is newer
+        if (this.dirs.has(path)) continue;
+        const entries = dir.entries.map(([name, type, size, date]) => ({ name, type, size, date }));
+        this.dirs.set(path, { listedAt: dir.listedAt, entries });
+      }
+      this.enabled = true;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        this.error = `Index cache unreadable (${this.file}): ${(e as Error).message}`;
+      }
+    }
+    this.loaded = true;
+    this.changed(true);
+  }
+
+  /**
+   * A directory listed elsewhere (browsing); ignored until the index is
+   * enabled. Cached subtrees of subdirectories missing from it are kept: only
+   * a crawl's own listing drops them.
+   */
+  record(dir: string, files: FileItem[], listedAt = Date.now()): void {
+    if (!this.enabled) return;
+    this.put(dir, files, listedAt, false);
+    if (!this.saveTimer && !this.crawlStatus) {
+      this.saveTimer = setTimeout(() => this.save(), defaults.indexSaveDelayMs);
+    }
+  }
+
+  /**
+   * Lists the roots and, when deep, the directories below them over
+   * defaults.indexConnections sessions of their own (the given service when
+   * none opens). Symlinks are not followed. One crawl runs at a time.
+   */
+  async crawl(service: IRemoteService, { roots, deep, refreshMs, exclude }: IndexCrawl): Promise<void> {
+    if (this.crawlStatus) return;
+    this.enabled = true;
+    this.cancelled = false;
+    this.error = null;
+    const excluded = excludeMatcher(exclude);
+    const started = Date.now();
+    const queue = [...roots];
+    const progress = { scanned: 0, queued: queue.length, current: null as string | null };
+    this.crawlStatus = progress;
+    this.changed(true);
+
+    let active = 0; // directories being listed
+    let waiting: (() => void)[] = [];
+    this.wake = () => {
+      const woken = waiting;
+      waiting = [];
+      woken.forEach((resolve) => resolve());
+    };
+
+    /** Next directory to list (counted as active from here); null once nothing can add to the queue */
+    const next = async (): Promise<string | null> => {
+      for (;;) {
+        if (this.cancelled) return null;
+        const dir = queue.shift();
+        if (dir !== undefined) {
+          active++;
+          return dir;
+        }
+        if (active === 0) return null;
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+    };
+
+    const worker = async (session: IRemoteService) => {
+      for (let dir = await next(); dir !== null; dir = await next()) {
+        progress.current = dir;
+        try {
+          const cached = this.dirs.get(dir);
+          let entries: FileItem[];
+          if (cached && started - cached.listedAt < refreshMs) {
+            entries = cached.entries;
+          } else {
+            entries = await session.list(dir);
+            this.put(dir, entries, Date.now(), true);
+          }
+          for (const e of deep ? entries : []) {
+            const path = childPath(dir, e.name);
+            if (e.type === 'DIR' && !excluded(e.name, path)) queue.push(path);
+          }
+        } catch {
+          /* unreadable: keep what is cached */
+        }
+        active--;
+        progress.scanned++;
+        progress.queued = queue.length;
+        if (progress.scanned % defaults.indexSaveEvery === 0) this.save();
+        this.changed();
+        this.wake();
+      }
+    };
+
+    const opened = (
+      await Promise.all(
+        Array.from({ length: defaults.indexConnections }, () => service.openSession().catch(() => null))
+      )
+    ).filter((s): s is IRemoteService => s !== null);
+    try {
+      await Promise.all((opened.length > 0 ? opened : [service]).map(worker));
+    } finally {
+      await Promise.all(opened.map((s) => s.disconnect().catch(() => {})));
+      this.crawlStatus = null;
+      this.wake = () => {};
+      await this.save();
+      this.changed(true);
+    }
+  }
+
+  /** Stops a crawl; what it listed so far is kept */
+  cancel(): void {
+    this.cancelled = true;
+    this.wake();
+  }
+
+  /** Writes the cache file through a temporary one, so an interrupted write keeps the old file */
+  save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.enabled) return this.saving;
+    this.saving = this.saving
+      .then(() => this.write())
+      .catch((err) => {
+        this.error = `Cannot save the index: ${err instanceof Error ? err.message : err}`;
+        this.changed(true);
+      });
+    return this.saving;
+  }
+
+  /** Stops crawling and notifying, and saves */
+  async dispose(): Promise<void> {
+    this.cancel();
+    if (this.notifyTimer) clearTimeout(this.notifyTimer);
+    this.notifyTimer = null;
+    this.removeAllListeners();
+    await this.save();
+  }
+
+  private async write(): Promise<void> {
+    const directories: Record<string, { listedAt: number; entries: CachedEntry[] }> = {};
+    for (const [path, dir] of this.dirs) {
+      directories[path] = {
+        listedAt: dir.listedAt,
+        entries: dir.entries.map((e): CachedEntry => [e.name, e.type, e.size, e.date]),
+      };
+    }
+    const user = this.config.user || defaults.ftpUser;
+    const data = { version: FORMAT_VERSION, host: this.config.host, user, directories };
+    await fs.mkdir(dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data));
+    await fs.rename(tmp, this.file);
+  }
+
+  /** Replaces a directory's entries; with prune, subdirectories gone from the listing are dropped with their trees */
+  private put(dir: string, files: FileItem[], listedAt: number, prune: boolean): void {
+    const names = new Set(files.filter((f) => f.type === 'DIR').map((f) => f.name));
+    for (const e of prune ? this.dirs.get(dir)?.entries ?? [] : []) {
+      if (e.type === 'DIR' && !names.has(e.name)) this.drop(childPath(dir, e.name));
+    }
+    const entries = files.map(({ name, type, size, date }) => ({ name, type, size, date }));
+    this.dirs.set(dir, { listedAt, entries });
+    this.changed();
+  }
+
+  private drop(dir: string): void {
+    for (const path of [...this.dirs.keys()]) {
+      if (path === dir || path.startsWith(`${dir}/`)) this.dirs.delete(path);
+    }
+  }
+
+  /** Bumps the version and emits 'change', now or (by default) on the next notify tick */
+  private changed(now = false): void {
+    this.version++;
+    if (now) {
+      if (this.notifyTimer) clearTimeout(this.notifyTimer);
+      this.notifyTimer = null;
+      this.emit('change', this.status());
+    } else if (!this.notifyTimer) {
+      this.notifyTimer = setTimeout(() => {
+        this.notifyTimer = null;
+        this.emit('change', this.status());
+      }, defaults.indexNotifyMs);
+    }
+  }
+}
+
+export function createRemoteIndex(config: FTPConfig): RemoteIndex {
+  return new RemoteIndex(config);
+}
@@ -0,0 +1,63 @@
+/**
+ * Retry with exponential backoff and jitter for transient network failures
+ * (see isRetryableError). The policy is process-wide: set once from the CLI,
+ * read by listings, reconnects and the transfer queue.
+ */
+
+import type { RetryPolicy } from '../types/index.js';
+import { defaults } from '../utils/constants.js';
+import { isRetryableError } from './errors.js';
+
+let policy: RetryPolicy = {
+  maxAttempts: defaults.retryMaxAttempts,
+  baseDelayMs: defaults.retryBaseDelayMs,
+  maxDelayMs: defaults.retryMaxDelayMs,
+  jitter: defaults.retryJitter,
+};
+
+export function setRetryPolicy(updates: Partial<RetryPolicy>): void {
+  policy = {
+    maxAttempts: Math.max(1, Math.floor(updates.maxAttempts ?? policy.maxAttempts)),
+    baseDelayMs: Math.max(0, updates.baseDelayMs ?? policy.baseDelayMs),
+    maxDelayMs: Math.max(0, updates.maxDelayMs ?? policy.maxDelayMs),
+    jitter: Math.min(1, Math.max(0, updates.jitter ?? policy.jitter)),
+  };
+}
+
+export function getRetryPolicy(): RetryPolicy {
+  return { ...policy };
+}
+
+/** Delay before retry n (1-based): base * 2^(n-1), capped at maxDelayMs, +/- jitter */
+export function backoffDelay(retry: number, p: RetryPolicy = policy): number {
+  const delay = Math.min(p.maxDelayMs, p.baseDelayMs * 2 ** Math.max(0, retry - 1));
+  const spread = delay * p.jitter;
+  return Math.max(0, Math.round(delay - spread + Math.random() * 2 * spread));
+}
+
+export interface RetryOptions {
+  shouldRetry?: (err: unknown) => boolean; // default: isRetryableError
+  onRetry?: (err: unknown, retry: number, delayMs: number) => void;
+}
+
+/**
+ * Runs fn until it succeeds, fails permanently or uses up the policy's
+ * attempts; the last error is rethrown.
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: RetryOptions = {},
+  p: RetryPolicy = policy
+): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isRetryableError;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (attempt >= p.maxAttempts || !shouldRetry(err)) throw err;
+      const delay = backoffDelay(attempt, p);
+      options.onRetry?.(err, attempt, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
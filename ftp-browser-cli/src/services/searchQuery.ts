@@ -0,0 +1,358 @@
+/**
+ * Search box query syntax. Words are ANDed; each is a name pattern or a filter:
+ *
+ *   report          name contains "report" ("two words" in quotes)
+ *   *.log           glob over the whole name (* ? [abc] [!abc])
+ *   /^build-\d+/i   regular expression (flags: i, u)
+ *   case:yes        name patterns are case-sensitive (default: no)
+ *   type:dir        file | dir | link
+ *   size:>100M      < <= > >= =, units K M G T (1024-based)
+ *   modified:<7d    age in m h d w y, or a date: modified:>=2024-01-31
+ *   ext:tar.gz      name ends with .tar.gz; ext:log,txt for any of several
+ *   grep:E1234      files containing a line with E1234 (grep:"two words",
+ *                   grep:/regex/); one per query, the other words pick the files
+ *
+ * and limits for this search, over the configured ones (see resolveSearchLimits):
+ *
+ *   depth:8         directory levels searched, the current one being the first
+ *   limit:5000      stop after this many results
+ *   timeout:5m      stop after this long (s, m, h; timeout:0 for none)
+ *   exclude:build   do not descend into directories matching these globs, besides
+ *                   the configured ones; exclude:none descends everywhere
+ *
+ * A word that looks like a filter with an unknown key is a name pattern.
+ */
+
+import type {
+  Comparison,
+  FileItem,
+  FileType,
+  NameMatch,
+  SearchLimits,
+  SearchQuery,
+  SearchScope,
+  SearchTerm,
+} from '../types/index.js';
+import { defaults, searchExcludeDefaults } from '../utils/constants.js';
+import { SearchQueryError } from './errors.js';
+
+const FILTERS = ['case', 'type', 'size', 'modified', 'ext', 'grep', 'depth', 'limit', 'timeout', 'exclude'] as const;
+type FilterKey = (typeof FILTERS)[number];
+
+const types: Record<string, FileType> = {
+  file: 'FILE',
+  f: 'FILE',
+  dir: 'DIR',
+  directory: 'DIR',
+  d: 'DIR',
+  link: 'LINK',
+  symlink: 'LINK',
+  l: 'LINK',
+};
+
+const sizeUnits: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+
+const timeoutUnits: Record<string, number> = { '': 1000, s: 1000, m: 60_000, h: 3_600_000 };
+
+const MINUTE = 60_000;
+const ageUnits: Record<string, number> = {
+  m: MINUTE,
+  min: MINUTE,
+  h: 60 * MINUTE,
+  d: 24 * 60 * MINUTE,
+  w: 7 * 24 * 60 * MINUTE,
+  y: 365 * 24 * 60 * MINUTE,
+};
+
+// An age below a limit is a time after now minus the limit
+const flipped: Record<Comparison, Comparison> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=', '=': '=' };
+
+const COMPARISON = /^(<=|>=|<|>|=)?(.*)$/;
+
+const DELIMITED_FILTER = new RegExp(`^(${FILTERS.join('|')}):(?=["/])`, 'i');
+
+interface Word {
+  text: string;
+  quoted: boolean;
+  regex?: { source: string; flags: string };
+  key?: FilterKey; // filter:"value" or filter:/regex/
+}
+
+/** Splits on whitespace; "quoted text" and /regex/ may contain spaces, also as a filter value */
+function tokenize(text: string): Word[] {
+  const words: Word[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    if (/\s/.test(text[pos])) {
+      pos++;
+      continue;
+    }
+    const prefix = DELIMITED_FILTER.exec(text.slice(pos));
+    const start = prefix ? pos + prefix[0].length : pos;
+    let word: Word;
+    if (text[start] === '"') {
+      const end = text.indexOf('"', start + 1);
+      const stop = end < 0 ? text.length : end;
+      word = { text: text.slice(start + 1, stop), quoted: true };
+      pos = stop + 1;
+    } else if (text[start] === '/') {
+      let end = start + 1;
+      while (end < text.length && text[end] !== '/') end += text[end] === '\\' ? 2 : 1;
+      if (end >= text.length) throw new SearchQueryError('Regex needs a closing /');
+      const flags = /^[a-z]*/.exec(text.slice(end + 1))![0];
+      const next = end + 1 + flags.length;
+      word = { text: text.slice(start, next), quoted: false, regex: { source: text.slice(start + 1, end), flags } };
+      pos = next;
+    } else {
+      const match = /^\S+/.exec(text.slice(pos))![0];
+      word = { text: match, quoted: false };
+      pos += match.length;
+    }
+    words.push(prefix ? { ...word, key: prefix[1].toLowerCase() as FilterKey } : word);
+  }
+  return words;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-name regex source for a glob */
+function globSource(glob: string): string {
+  let out = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') out += '.*';
+    else if (ch === '?') out += '.';
+    else if (ch === '[' && glob.indexOf(']', i + 2) > 0) {
+      const end = glob.indexOf(']', i + 2);
+      const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+      out += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else out += escapeRegex(ch);
+  }
+  return `^${out}$`;
+}
+
+function compile(source: string, flags: string, text: string): RegExp {
+  try {
+    return new RegExp(source, flags);
+  } catch (err) {
+    throw new SearchQueryError(`Invalid regex ${text}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+function parseSize(value: string): SearchTerm {
+  const [, op = '=', amount] = COMPARISON.exec(value)!;
+  const m = /^(\d+(?:\.\d+)?)([kmgt]?)(?:i?b)?$/i.exec(amount);
+  if (!m) throw new SearchQueryError(`Invalid size "${value}" (e.g. size:>100M)`);
+  return { kind: 'size', op: op as Comparison, bytes: Math.round(parseFloat(m[1]) * sizeUnits[m[2].toLowerCase()]) };
+}
+
+function parseCount(key: string, value: string): number {
+  const n = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  if (!(n >= 1)) throw new SearchQueryError(`Invalid ${key} "${value}" (a number from 1)`);
+  return n;
+}
+
+function parseTimeout(value: string): number {
+  const m = /^(\d+(?:\.\d+)?)([smh]?)$/i.exec(value);
+  if (!m) throw new SearchQueryError(`Invalid timeout "${value}" (e.g. timeout:30s, timeout:5m, timeout:0)`);
+  return Math.round(parseFloat(m[1]) * timeoutUnits[m[2].toLowerCase()]);
+}
+
+/** An age (modified:<7d: within the last 7 days) or a local date; a bare date is that day */
+function parseModified(value: string, now: number): SearchTerm[] {
+  const [, op, amount] = COMPARISON.exec(value)!;
+  const age = /^(\d+(?:\.\d+)?)(min|m|h|d|w|y)$/i.exec(amount);
+  if (age) {
+    // No comparison, or '=': within that age
+    const cmp = !op || op === '=' ? '>=' : flipped[op as Comparison];
+    return [{ kind: 'modified', op: cmp, time: now - parseFloat(age[1]) * ageUnits[age[2].toLowerCase()] }];
+  }
+  const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(amount);
+  const start = date ? new Date(+date[1], +date[2] - 1, +date[3]).getTime() : NaN;
+  if (!date || Number.isNaN(start)) {
+    throw new SearchQueryError(`Invalid age or date "${value}" (e.g. modified:<7d, modified:>2024-01-31)`);
+  }
+  const end = new Date(+date[1], +date[2] - 1, +date[3] + 1).getTime();
+  switch (op ?? '=') {
+    case '<':
+      return [{ kind: 'modified', op: '<', time: start }];
+    case '<=':
+      return [{ kind: 'modified', op: '<', time: end }];
+    case '>':
+      return [{ kind: 'modified', op: '>=', time: end }];
+    case '>=':
+      return [{ kind: 'modified', op: '>=', time: start }];
+    default:
+      return [
+        { kind: 'modified', op: '>=', time: start },
+        { kind: 'modified', op: '<', time: end },
+      ];
+  }
+}
+
+/** Parses the search box text; throws SearchQueryError with a message fit for the status line */
+export function parseSearchQuery(text: string, now = Date.now()): SearchQuery {
+  const terms: SearchTerm[] = [];
+  const names: { match: NameMatch; source: string; flags: string; text: string }[] = [];
+  let content: { source: string; flags: string; text: string } | null = null;
+  let caseSensitive = false;
+  const scope: SearchScope = { exclude: [], excludeNone: false };
+
+  for (const word of tokenize(text)) {
+    if (word.regex && /[^iu]/.test(word.regex.flags)) {
+      throw new SearchQueryError(`Unsupported regex flags in ${word.text}`);
+    }
+    let key = word.key ?? null;
+    let value = word.text;
+    const colon = word.quoted || word.regex ? -1 : word.text.indexOf(':');
+    if (colon > 0 && (FILTERS as readonly string[]).includes(word.text.slice(0, colon).toLowerCase())) {
+      key = word.text.slice(0, colon).toLowerCase() as FilterKey;
+      value = word.text.slice(colon + 1);
+    }
+
+    if (key) {
+      if (!value) throw new SearchQueryError(`${key}: needs a value`);
+      if (word.regex && key !== 'grep') throw new SearchQueryError(`${key}: does not take a regex`);
+      switch (key) {
+        case 'grep':
+          if (content) throw new SearchQueryError('Only one grep: per query');
+          content = word.regex
+            ? { source: word.regex.source, flags: word.regex.flags, text: word.text }
+            : { source: escapeRegex(value), flags: '', text: value };
+          break;
+        case 'case':
+          if (!/^(yes|no|on|off|true|false)$/i.test(value)) throw new SearchQueryError(`Invalid case "${value}" (yes or no)`);
+          caseSensitive = /^(yes|on|true)$/i.test(value);
+          break;
+        case 'type':
+          if (!types[value.toLowerCase()]) throw new SearchQueryError(`Invalid type "${value}" (file, dir or link)`);
+          terms.push({ kind: 'type', type: types[value.toLowerCase()] });
+          break;
+        case 'size':
+          terms.push(parseSize(value));
+          break;
+        case 'modified':
+          terms.push(...parseModified(value, now));
+          break;
+        case 'ext':
+          terms.push({
+            kind: 'ext',
+            extensions: value
+              .split(',')
+              .map((e) => e.replace(/^\./, '').toLowerCase())
+              .filter(Boolean),
+          });
+          break;
+        case 'depth':
+          scope.maxDepth = parseCount(key, value);
+          break;
+        case 'limit':
+          scope.maxResults = parseCount(key, value);
+          break;
+        case 'timeout':
+          scope.timeoutMs = parseTimeout(value);
+          break;
+        case 'exclude':
+          if (value.toLowerCase() === 'none') scope.excludeNone = true;
+          else scope.exclude.push(...value.split(',').filter(Boolean));
+          break;
+      }
+    } else if (word.regex) {
+      names.push({ match: 'regex', source: word.regex.source, flags: word.regex.flags, text: word.text });
+    } else if (!word.quoted && /[*?[]/.test(word.text)) {
+      names.push({ match: 'glob', source: globSource(word.text), flags: '', text: word.text });
+    } else if (word.text) {
+      names.push({ match: 'substring', source: escapeRegex(word.text), flags: '', text: word.text });
+    }
+  }
+
+  // Compiled last: case: may come after the patterns it applies to
+  const flagsFor = (flags: string) => (caseSensitive || flags.includes('i') ? flags : flags + 'i');
+  for (const n of names) {
+    terms.push({ kind: 'name', match: n.match, pattern: compile(n.source, flagsFor(n.flags), n.text) });
+  }
+  return {
+    text,
+    caseSensitive,
+    terms,
+    content: content ? compile(content.source, flagsFor(content.flags), content.text) : null,
+    scope,
+  };
+}
+
+/** The defaults (searchExcludeDefaults for exclude), overridden by each layer in turn: profile, then CLI flags */
+export function resolveSearchLimits(...layers: (Partial<SearchLimits> | undefined)[]): SearchLimits {
+  const limits: SearchLimits = {
+    maxDepth: defaults.maxSearchDepth,
+    maxResults: defaults.maxSearchResults,
+    timeoutMs: defaults.searchTimeoutMs,
+    exclude: [...searchExcludeDefaults],
+  };
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer ?? {})) {
+      if (value !== undefined) Object.assign(limits, { [key]: value });
+    }
+  }
+  return limits;
+}
+
+/** Limits for one search: the query's depth:, limit:, timeout: and exclude: over the configured ones */
+export function applyScope(limits: SearchLimits, scope: SearchScope): SearchLimits {
+  return {
+    maxDepth: scope.maxDepth ?? limits.maxDepth,
+    maxResults: scope.maxResults ?? limits.maxResults,
+    timeoutMs: scope.timeoutMs ?? limits.timeoutMs,
+    exclude: [...(scope.excludeNone ? [] : limits.exclude), ...scope.exclude],
+  };
+}
+
+/** Tests a directory against exclude globs: by name, or by full path for a glob containing / */
+export function excludeMatcher(globs: string[]): (name: string, path: string) => boolean {
+  const patterns = globs.map((glob) => ({
+    byPath: glob.includes('/'),
+    pattern: new RegExp(globSource(glob.replace(/\/+$/, ''))),
+  }));
+  return (name, path) => patterns.some(({ byPath, pattern }) => pattern.test(byPath ? path : name));
+}
+
+function compare(a: number, op: Comparison, b: number): boolean {
+  switch (op) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    default:
+      return a === b;
+  }
+}
+
+function matchesTerm(item: FileItem, term: SearchTerm): boolean {
+  switch (term.kind) {
+    case 'name':
+      return term.pattern.test(item.name);
+    case 'type':
+      return item.type === term.type;
+    case 'size':
+      return item.size !== null && compare(item.size, term.op, term.bytes);
+    case 'modified': {
+      const time = item.date ? Date.parse(item.date) : NaN;
+      return !Number.isNaN(time) && compare(time, term.op, term.time);
+    }
+    case 'ext': {
+      const name = item.name.toLowerCase();
+      return term.extensions.some((ext) => name.endsWith(`.${ext}`));
+    }
+  }
+}
+
+/** Whether an item satisfies every term (items without a size or date fail those filters) */
+export function matchesQuery(item: FileItem, query: SearchQuery): boolean {
+  return query.terms.every((term) => matchesTerm(item, term));
+}
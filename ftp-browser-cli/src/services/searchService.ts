@@ -1,58 +1,255 @@
 /**
- * Search service: recursive search with cancel and progress.
+ * Search service: parallel breadth-first search with cancel and progress.
+ * Items are matched against a parsed query (see searchQuery.ts). With a
+ * grep: pattern the matching files are streamed and every matching line is a
+ * result. The search is bounded by SearchLimits; the final progress tells
+ * which limit cut it short.
  */
 
-import type { FileItem, IFTPService } from '../types/index.js';
+import { Writable } from 'stream';
+import type {
+  ContentMatch,
+  FileItem,
+  IRemoteService,
+  SearchLimits,
+  SearchProgress,
+  SearchQuery,
+  SearchStop,
+} from '../types/index.js';
 import { defaults } from '../utils/constants.js';
+import { looksBinary } from '../utils/pager.js';
+import { applyScope, excludeMatcher, matchesQuery, resolveSearchLimits } from './searchQuery.js';
+
+const NEWLINE = 0x0a;
+
+/**
+ * Sink testing each line of a file against pattern. It ends the transfer
+ * (failing the write) at defaults.contentSearchMaxBytes, after
+ * defaults.contentSearchMaxMatches matches, on a binary file or when cancelled.
+ */
+class LineScanner extends Writable {
+  private line: Buffer[] = [];
+  private lineBytes = 0; // kept of the current line, up to defaults.contentSearchLineBytes
+  private lineStart = 0;
+  private lineNumber = 1;
+  private read = 0;
+  private matches = 0;
+
+  constructor(
+    private pattern: RegExp,
+    private name: string,
+    private onMatch: (match: ContentMatch) => void,
+    private cancelled: () => boolean
+  ) {
+    super();
+  }
+
+  _write(chunk: Buffer, _enc: BufferEncoding, cb: (err?: Error | null) => void): void {
+    if (this.read === 0 && looksBinary(chunk.subarray(0, defaults.binarySniffBytes), this.name)) {
+      this.stop(cb);
+      return;
+    }
+    const data = chunk.subarray(0, defaults.contentSearchMaxBytes - this.read);
+    let pos = 0;
+    for (let nl = data.indexOf(NEWLINE); nl >= 0; nl = data.indexOf(NEWLINE, pos)) {
+      this.keep(data.subarray(pos, nl));
+      this.endLine(this.read + nl + 1);
+      pos = nl + 1;
+    }
+    this.keep(data.subarray(pos));
+    this.read += data.length;
+    if (
+      this.read >= defaults.contentSearchMaxBytes ||
+      this.matches >= defaults.contentSearchMaxMatches ||
+      this.cancelled()
+    ) {
+      this.stop(cb);
+      return;
+    }
+    cb();
+  }
+
+  _final(cb: (err?: Error | null) => void): void {
+    if (this.lineBytes > 0) this.endLine(this.read);
+    cb();
+  }
+
+  private stop(cb: (err?: Error | null) => void): void {
+    cb(new Error('Content search stopped'));
+  }
+
+  private keep(part: Buffer): void {
+    const room = defaults.contentSearchLineBytes - this.lineBytes;
+    if (room <= 0 || part.length === 0) return;
+    this.line.push(part.subarray(0, room));
+    this.lineBytes += Math.min(part.length, room);
+  }
+
+  /** Tests the line ending here; next is where the following line starts */
+  private endLine(next: number): void {
+    const text = Buffer.concat(this.line, this.lineBytes).toString('utf8').replace(/\r$/, '');
+    if (this.matches < defaults.contentSearchMaxMatches && this.pattern.test(text)) {
+      this.matches++;
+      this.onMatch({
+        line: this.lineNumber,
+        offset: this.lineStart,
+        text: text.trim().slice(0, defaults.contentMatchChars),
+      });
+    }
+    this.line = [];
+    this.lineBytes = 0;
+    this.lineStart = next;
+    this.lineNumber++;
+  }
+}
 
 export class SearchService {
   private cancelled = false;
-  constructor(private ftp: IFTPService) {}
+  private stoppedBy: SearchProgress['stoppedBy'] = null;
+  private wake: () => void = () => {};
+  constructor(private ftp: IRemoteService) {}
 
+  /**
+   * Breadth-first over defaults.searchConnections sessions of their own, so
+   * the browsing connection stays free; falls back to it when no session can
+   * be opened. Results and progress are reported as they come. The query's
+   * depth:, limit:, timeout: and exclude: apply over limits.
+   */
   async search(
     startPath: string,
-    pattern: string,
-    maxDepth?: number,
-    onProgress?: (currentPath: string) => void,
+    query: SearchQuery,
+    limits: SearchLimits = resolveSearchLimits(),
+    onProgress?: (progress: SearchProgress) => void,
     onMatch?: (item: FileItem) => void
   ): Promise<FileItem[]> {
     this.cancelled = false;
-    const limit = maxDepth ?? defaults.maxSearchDepth;
+    this.stoppedBy = null;
+    const { maxDepth, maxResults, timeoutMs, exclude } = applyScope(limits, query.scope);
+    const excluded = excludeMatcher(exclude);
     const results: FileItem[] = [];
-    const pat = pattern.toLowerCase();
-
-    const recurse = async (
-      cur: string,
-      depth: number
-    ): Promise<void> => {
-      if (this.cancelled || depth >= limit) return;
-      onProgress?.(cur);
-      try {
-        const files = await this.ftp.list(cur);
-        for (const f of files) {
-          if (this.cancelled) return;
-          const full = cur === '/' ? `/${f.name}` : `${cur}/${f.name}`;
-          if (f.name.toLowerCase().includes(pat)) {
-            const matched = { ...f, path: cur };
+    const queue: { path: string; depth: number }[] = maxDepth > 0 ? [{ path: startPath, depth: 0 }] : [];
+    const progress: SearchProgress = {
+      scanned: 0,
+      queued: queue.length,
+      current: null,
+      excluded: 0,
+      beyondDepth: 0,
+      stoppedBy: null,
+    };
+    let active = 0; // directories being listed
+    let waiting: (() => void)[] = [];
+    this.wake = () => {
+      const woken = waiting;
+      waiting = [];
+      woken.forEach((resolve) => resolve());
+    };
+
+    /** Next directory to list (counted as active from here); null once nothing can add to the queue */
+    const next = async (): Promise<{ path: string; depth: number } | null> => {
+      for (;;) {
+        if (this.cancelled) return null;
+        const dir = queue.shift();
+        if (dir) {
+          active++;
+          return dir;
+        }
+        if (active === 0) return null;
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+    };
+
+    const scan = async (session: IRemoteService, cur: string, depth: number) => {
+      const files = await session.list(cur);
+      for (const f of files) {
+        if (this.cancelled) return;
+        const full = cur === '/' ? `/${f.name}` : `${cur}/${f.name}`;
+        if (matchesQuery(f, query)) {
+          // A content search reports each matching line of a file instead of the file
+          const report = (match?: ContentMatch) => {
+            if (this.cancelled) return;
+            const matched: FileItem = match ? { ...f, path: cur, match } : { ...f, path: cur };
             results.push(matched);
             onMatch?.(matched);
-          }
-          if (f.type === 'DIR') await recurse(full, depth + 1);
+            if (results.length >= maxResults) this.stop('results', maxResults);
+          };
+          if (!query.content) report();
+          else if (f.type === 'FILE') await this.grep(session, full, f.name, query.content, report);
         }
-      } catch {
-        /* skip */
+        if (f.type !== 'DIR') continue;
+        if (excluded(f.name, full)) progress.excluded++;
+        else if (depth + 1 >= maxDepth) progress.beyondDepth++;
+        else queue.push({ path: full, depth: depth + 1 });
       }
     };
 
-    await recurse(startPath, 0);
+    const worker = async (session: IRemoteService) => {
+      for (let dir = await next(); dir; dir = await next()) {
+        progress.current = dir.path;
+        progress.queued = queue.length;
+        onProgress?.({ ...progress });
+        try {
+          await scan(session, dir.path, dir.depth);
+        } catch {
+          /* skip unreadable directories */
+        }
+        active--;
+        progress.scanned++;
+        progress.queued = queue.length;
+        onProgress?.({ ...progress });
+        this.wake();
+      }
+    };
+
+    const opened = (
+      await Promise.all(
+        Array.from({ length: defaults.searchConnections }, () => this.ftp.openSession().catch(() => null))
+      )
+    ).filter((s): s is IRemoteService => s !== null);
+    const sessions = opened.length > 0 ? opened : [this.ftp];
+    const timer = timeoutMs > 0 ? setTimeout(() => this.stop('timeout', timeoutMs), timeoutMs) : null;
+    try {
+      await Promise.all(sessions.map(worker));
+    } finally {
+      if (timer) clearTimeout(timer);
+      await Promise.all(opened.map((s) => s.disconnect().catch(() => {})));
+    }
+    progress.current = null;
+    progress.queued = queue.length;
+    progress.stoppedBy =
+      this.stoppedBy ?? (progress.beyondDepth > 0 && !this.cancelled ? { limit: 'depth', value: maxDepth } : null);
+    onProgress?.({ ...progress });
     return results;
   }
 
+  /** Ends the search at a limit; the first limit reached is the one reported */
+  private stop(limit: SearchStop, value: number): void {
+    if (this.cancelled) return;
+    this.stoppedBy = { limit, value };
+    this.cancel();
+  }
+
+  /** Reports the matching lines of one file; a file that cannot be read is skipped */
+  private async grep(
+    session: IRemoteService,
+    path: string,
+    name: string,
+    pattern: RegExp,
+    onMatch: (match: ContentMatch) => void
+  ) {
+    const scanner = new LineScanner(pattern, name, onMatch, () => this.cancelled);
+    try {
+      await session.readStream(path, scanner);
+    } catch {
+      // stopped by the scanner, or unreadable (permission denied, vanished)
+    }
+  }
+
   cancel(): void {
     this.cancelled = true;
+    this.wake(); // idle workers see it and stop
   }
 }
 
-export function createSearchService(ftp: IFTPService): SearchService {
+export function createSearchService(ftp: IRemoteService): SearchService {
   return new SearchService(ftp);
 }
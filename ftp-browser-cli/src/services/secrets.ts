@@ -0,0 +1,124 @@
+/**
+ * Password sources other than a plaintext -p: password file, FTP_PASSWORD
+ * environment variable and ~/.netrc. Decides whether the UI must prompt.
+ */
+
+import { promises as fs } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { defaults, errorMessages } from '../utils/constants.js';
+import { ConfigError } from './errors.js';
+
+export type PasswordSource = 'flag' | 'file' | 'url' | 'env' | 'netrc' | 'prompt' | 'none';
+
+export interface NetrcEntry {
+  machine: string | null; // null for the "default" entry
+  login?: string;
+  password?: string;
+}
+
+export interface CredentialRequest {
+  host: string;
+  user?: string; // explicit user (-u, URL or profile)
+  password?: string; // explicit password (-p or URL)
+  passwordSource?: PasswordSource; // where `password` came from
+  passwordFile?: string;
+}
+
+export interface ResolvedCredentials {
+  user: string;
+  password: string;
+  source: PasswordSource;
+  needsPrompt: boolean; // a user was given but no password was found
+}
+
+/** Reads the first line of a password file (trailing newline stripped) */
+export async function readPasswordFile(path: string): Promise<string> {
+  try {
+    const text = await fs.readFile(path, 'utf-8');
+    return text.split(/\r?\n/)[0] ?? '';
+  } catch (e) {
+    throw new ConfigError(`${errorMessages.passwordFile}: ${(e as Error).message}`);
+  }
+}
+
+/** Tokenizes .netrc content; macdef bodies are skipped */
+export function parseNetrc(text: string): NetrcEntry[] {
+  const entries: NetrcEntry[] = [];
+  const lines = text.split(/\r?\n/);
+  const tokens: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/#.*$/, '');
+    const words = line.split(/\s+/).filter(Boolean);
+    if (words[0] === 'macdef') {
+      // macro body runs until the next blank line
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '') i++;
+      continue;
+    }
+    tokens.push(...words);
+  }
+  let cur: NetrcEntry | null = null;
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t === 'machine') {
+      cur = { machine: tokens[++i] ?? '' };
+      entries.push(cur);
+    } else if (t === 'default') {
+      cur = { machine: null };
+      entries.push(cur);
+    } else if (cur && t === 'login') {
+      cur.login = tokens[++i];
+    } else if (cur && t === 'password') {
+      cur.password = tokens[++i];
+    } else if (cur && t === 'account') {
+      i++;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Finds the .netrc entry for host (and user, when given). Falls back to the
+ * "default" entry. Reads $NETRC or ~/.netrc; a missing file yields null.
+ */
+export async function lookupNetrc(host: string, user?: string): Promise<NetrcEntry | null> {
+  const file = process.env.NETRC || join(homedir(), '.netrc');
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch {
+    return null;
+  }
+  const entries = parseNetrc(text);
+  const matchesUser = (e: NetrcEntry) => !user || !e.login || e.login === user;
+  return (
+    entries.find((e) => e.machine === host && matchesUser(e)) ??
+    entries.find((e) => e.machine === null && matchesUser(e)) ??
+    null
+  );
+}
+
+/**
+ * Resolves user and password. Order: explicit password (-p/URL), --password-file,
+ * FTP_PASSWORD, ~/.netrc. Without any, a named user needs an interactive prompt.
+ */
+export async function resolveCredentials(req: CredentialRequest): Promise<ResolvedCredentials> {
+  const { user } = req;
+  if (req.password !== undefined) {
+    return { user: user ?? defaults.ftpUser, password: req.password, source: req.passwordSource ?? 'flag', needsPrompt: false };
+  }
+  if (req.passwordFile) {
+    const password = await readPasswordFile(req.passwordFile);
+    return { user: user ?? defaults.ftpUser, password, source: 'file', needsPrompt: false };
+  }
+  const env = process.env.FTP_PASSWORD;
+  if (env !== undefined && env !== '') {
+    return { user: user ?? defaults.ftpUser, password: env, source: 'env', needsPrompt: false };
+  }
+  const netrc = await lookupNetrc(req.host, user);
+  if (netrc?.password !== undefined) {
+    return { user: user ?? netrc.login ?? defaults.ftpUser, password: netrc.password, source: 'netrc', needsPrompt: false };
+  }
+  const named = user !== undefined && user !== defaults.ftpUser;
+  return { user: user ?? defaults.ftpUser, password: defaults.ftpPassword, source: 'none', needsPrompt: named };
+}
@@ -0,0 +1,606 @@
+/**
+ * SFTP client service using ssh2-sftp-client.
+ * Mirrors FTPService so the store, search and downloads work on either protocol.
+ */
+
+import SftpClient from 'ssh2-sftp-client';
+import { EventEmitter } from 'events';
+import { createReadStream, createWriteStream } from 'fs';
+import { Transform, type Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { dirname, join, basename } from 'path';
+import type {
+  FTPConfig,
+  FileItem,
+  FileInfo,
+  DownloadProgress,
+  FTPEventType,
+  FTPProgressCallback,
+  FTPErrorCallback,
+  IRemoteService,
+  RemoteChecksum,
+} from '../types/index.js';
+import { defaults, errorMessages } from '../utils/constants.js';
+import { ensureDirectoryExists, getFileSize } from './fileSystem.js';
+import {
+  ConnectionError,
+  AuthenticationError,
+  FileNotFoundError,
+  TimeoutError,
+  DownloadError,
+  UploadError,
+  isRetryableError,
+  toFileOperationError,
+} from './errors.js';
+import { withRetry } from './retry.js';
+
+/**
+ * Permissions of a listed entry. The listing line ("longname") keeps setuid,
+ * setgid and sticky as s/S/t/T; ssh2-sftp-client's rights drop dashes ("rw"),
+ * so from them only the rwx triplets can be rebuilt.
+ */
+function formatRights(f: SftpClient.FileInfo & { longname?: string }): string {
+  const flags = f.longname?.slice(1, 10) ?? '';
+  if (/^[r-][w-][xsS-][r-][w-][xsS-][r-][w-][xtT-]$/.test(flags)) return f.type + flags;
+  const rwx = (r: string) => ['r', 'w', 'x'].map((c) => (r.includes(c) ? c : '-')).join('');
+  return f.type + rwx(f.rights.user) + rwx(f.rights.group) + rwx(f.rights.other);
+}
+
+/** Mode bits as "rwxr-xr-x", with s/S/t/T for setuid, setgid and sticky */
+function formatMode(mode: number, typeChar: string): string {
+  const rwx = (n: number, special: boolean, mark: string) =>
+    (n & 4 ? 'r' : '-') +
+    (n & 2 ? 'w' : '-') +
+    (special ? (n & 1 ? mark : mark.toUpperCase()) : n & 1 ? 'x' : '-');
+  return (
+    typeChar +
+    rwx((mode >> 6) & 7, (mode & 0o4000) !== 0, 's') +
+    rwx((mode >> 3) & 7, (mode & 0o2000) !== 0, 's') +
+    rwx(mode & 7, (mode & 0o1000) !== 0, 't')
+  );
+}
+
+function toFileItem(f: SftpClient.FileInfo): FileItem {
+  const type: FileItem['type'] = f.type === 'l' ? 'LINK' : f.type === 'd' ? 'DIR' : 'FILE';
+  return {
+    type,
+    name: f.name,
+    size: type === 'DIR' ? null : f.size,
+    date: f.modifyTime ? new Date(f.modifyTime).toISOString() : null,
+    permissions: f.rights ? formatRights(f) : undefined,
+  };
+}
+
+function isNotFound(err: unknown): boolean {
+  if (!(err instanceof Error)) return false;
+  const m = err.message.toLowerCase();
+  return m.includes('no such file') || m.includes('not exist') || m.includes('not found');
+}
+
+export class SFTPService extends EventEmitter implements IRemoteService {
+  private client: SftpClient;
+  private cfg: FTPConfig;
+  private isConnected = false;
+
+  constructor(config: FTPConfig) {
+    super();
+    this.client = this.watch(new SftpClient());
+    this.cfg = config;
+  }
+
+  /** Marks the service disconnected when the client's SSH connection closes */
+  private watch(client: SftpClient): SftpClient {
+    client.on('close', () => {
+      if (this.client === client) this.isConnected = false;
+    });
+    return client;
+  }
+
+  get config(): FTPConfig {
+    return this.cfg;
+  }
+
+  private connectOptions(): SftpClient.ConnectOptions {
+    return {
+      host: this.cfg.host,
+      port: this.cfg.port ?? defaults.sftpPort,
+      username: this.cfg.user ?? defaults.ftpUser,
+      password: this.cfg.password ?? defaults.ftpPassword,
+      readyTimeout: this.cfg.timeout ?? defaults.ftpTimeout,
+      retries: 0,
+    };
+  }
+
+  /** Open a second connected SFTPService with the same config */
+  async openSession(): Promise<IRemoteService> {
+    const session = new SFTPService(this.cfg);
+    await session.connect();
+    return session;
+  }
+
+  /** Attempt to reconnect the browsing client if connection was lost (with retry/backoff) */
+  private async ensureConnected(): Promise<void> {
+    if (this.isConnected) {
+      try {
+        await this.client.cwd();
+        return;
+      } catch {
+        // connection lost, try reconnect
+      }
+    }
+    this.isConnected = false;
+    await withRetry(async () => {
+      try {
+        await this.client.end();
+      } catch { /* ignore */ }
+      this.client = this.watch(new SftpClient());
+      await this.client.connect(this.connectOptions());
+    });
+    this.isConnected = true;
+  }
+
+  async connect(): Promise<boolean> {
+    try {
+      await this.client.connect(this.connectOptions());
+      this.isConnected = true;
+      this.emit('connected', { host: this.cfg.host, user: this.cfg.user });
+      return true;
+    } catch (err) {
+      this.isConnected = false;
+      if (err instanceof Error) {
+        const m = err.message.toLowerCase();
+        if (m.includes('timeout') || m.includes('timed out'))
+          throw new TimeoutError(errorMessages.timeout);
+        if (m.includes('authentication') || m.includes('auth'))
+          throw new AuthenticationError(errorMessages.login);
+        if (m.includes('enotfound') || m.includes('getaddrinfo'))
+          throw new ConnectionError(errorMessages.dnsResolve);
+      }
+      throw new ConnectionError(errorMessages.connection);
+    }
+  }
+
+  isAlive(): boolean {
+    return this.isConnected;
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.client.end();
+      this.isConnected = false;
+      this.emit('disconnected');
+    } catch {
+      /* ignore */
+    }
+  }
+
+  /** Lists a directory, retrying transient failures (timeouts, dropped connections) */
+  async list(path: string): Promise<FileItem[]> {
+    // A failed reconnect has used its own retries; do not multiply them
+    let reconnectFailed = false;
+    return withRetry(
+      async () => {
+        await this.ensureConnected().catch((err) => {
+          reconnectFailed = true;
+          throw err;
+        });
+        return this.listOnce(path);
+      },
+      { shouldRetry: (err) => !reconnectFailed && isRetryableError(err) }
+    );
+  }
+
+  private async listOnce(path: string): Promise<FileItem[]> {
+    try {
+      const raw = await this.client.list(path);
+      const items = raw
+        .filter((f) => f.name !== '.' && f.name !== '..')
+        .map(toFileItem);
+      for (const item of items) {
+        if (item.type !== 'LINK') continue;
+        try {
+          item.target = await this.client.realPath(path === '/' ? `/${item.name}` : `${path}/${item.name}`);
+        } catch { /* dangling link */ }
+      }
+      return items.sort((a, b) => {
+        if (a.type === 'DIR' && b.type !== 'DIR') return -1;
+        if (a.type !== 'DIR' && b.type === 'DIR') return 1;
+        return a.name.localeCompare(b.name);
+      });
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async download(
+    remotePath: string,
+    localPath: string,
+    onProgress?: FTPProgressCallback,
+    resume: boolean = false
+  ): Promise<void> {
+    if (!this.isConnected) throw new ConnectionError('Not connected to SFTP server');
+    await ensureDirectoryExists(dirname(localPath));
+    let totalSize = 0;
+    try {
+      totalSize = (await this.client.stat(remotePath)).size;
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${remotePath}`);
+    }
+    // Only continue a local file when asked to: it may be an unrelated file with the same name
+    const existingSize = resume ? await getFileSize(localPath) : 0;
+    const startOffset =
+      existingSize > 0 && totalSize > 0 && totalSize > existingSize ? existingSize : 0;
+    const filename = remotePath.split('/').filter(Boolean).pop() ?? remotePath;
+    let downloaded = startOffset;
+    const startTime = Date.now();
+    let lastEmit = startTime;
+
+    if (resume && totalSize > 0 && existingSize === totalSize) {
+      // Already complete locally
+      const done: DownloadProgress = {
+        id: filename,
+        filename,
+        remotePath,
+        localPath,
+        totalSize,
+        downloaded: totalSize,
+        speed: 0,
+        eta: 0,
+        status: 'completed',
+      };
+      onProgress?.(done);
+      this.emit('progress', done);
+      return;
+    }
+
+    const counter = new Transform({
+      transform: (chunk: Buffer, _enc, cb) => {
+        downloaded += chunk.length;
+        const now = Date.now();
+        if (now - lastEmit >= 200) {
+          lastEmit = now;
+          const elapsed = (now - startTime) / 1000;
+          const speed = elapsed > 0 ? downloaded / elapsed : 0;
+          const remaining = totalSize > 0 ? totalSize - downloaded : 0;
+          const eta = speed > 0 && remaining > 0 ? remaining / speed : 0;
+          const p: DownloadProgress = {
+            id: filename,
+            filename,
+            remotePath,
+            localPath,
+            totalSize,
+            downloaded,
+            speed,
+            eta,
+            status: 'downloading',
+          };
+          onProgress?.(p);
+          this.emit('progress', p);
+        }
+        cb(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(
+        this.client.createReadStream(remotePath, { start: startOffset }),
+        counter,
+        createWriteStream(localPath, { flags: startOffset > 0 ? 'a' : 'w' })
+      );
+      const done: DownloadProgress = {
+        id: filename,
+        filename,
+        remotePath,
+        localPath,
+        totalSize: downloaded,
+        downloaded,
+        speed: 0,
+        eta: 0,
+        status: 'completed',
+      };
+      onProgress?.(done);
+      this.emit('progress', done);
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${remotePath}`);
+      throw new DownloadError(
+        `${errorMessages.downloadFailed}: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async downloadDirectory(
+    remotePath: string,
+    localPath: string,
+    onProgress?: FTPProgressCallback
+  ): Promise<void> {
+    if (!this.isConnected) throw new ConnectionError('Not connected to SFTP server');
+    await ensureDirectoryExists(localPath);
+    const files = await this.list(remotePath);
+    for (const file of files) {
+      const r = remotePath === '/' ? `/${file.name}` : `${remotePath}/${file.name}`;
+      const l = join(localPath, file.name);
+      if (file.type === 'DIR') {
+        await this.downloadDirectory(r, l, onProgress);
+      } else if (file.type === 'FILE') {
+        await this.download(r, l, onProgress);
+      }
+    }
+  }
+
+  /**
+   * Upload a local file. With resume, a shorter remote file is continued by
+   * writing from its current size instead of being overwritten.
+   */
+  async upload(
+    localPath: string,
+    remotePath: string,
+    onProgress?: FTPProgressCallback,
+    resume: boolean = false
+  ): Promise<void> {
+    if (!this.isConnected) throw new ConnectionError('Not connected to SFTP server');
+    const totalSize = await getFileSize(localPath);
+    let remoteSize = 0;
+    if (resume) {
+      try {
+        remoteSize = (await this.client.stat(remotePath)).size;
+      } catch {
+        /* not there yet */
+      }
+    }
+    const startOffset = remoteSize > 0 && remoteSize < totalSize ? remoteSize : 0;
+    const filename = basename(localPath);
+    let uploaded = startOffset;
+    const startTime = Date.now();
+    let lastEmit = startTime;
+    const progress = (status: DownloadProgress['status'], speed: number, eta: number): DownloadProgress => ({
+      id: filename,
+      direction: 'upload',
+      filename,
+      remotePath,
+      localPath,
+      totalSize,
+      downloaded: uploaded,
+      speed,
+      eta,
+      status,
+    });
+
+    if (resume && totalSize > 0 && remoteSize === totalSize) {
+      // Already complete on the server
+      const done = progress('completed', 0, 0);
+      onProgress?.(done);
+      this.emit('progress', done);
+      return;
+    }
+
+    const counter = new Transform({
+      transform: (chunk: Buffer, _enc, cb) => {
+        uploaded += chunk.length;
+        const now = Date.now();
+        if (now - lastEmit >= 200) {
+          lastEmit = now;
+          const elapsed = (now - startTime) / 1000;
+          const speed = elapsed > 0 ? (uploaded - startOffset) / elapsed : 0;
+          const remaining = totalSize - uploaded;
+          const eta = speed > 0 && remaining > 0 ? remaining / speed : 0;
+          const p = progress('downloading', speed, eta);
+          onProgress?.(p);
+          this.emit('progress', p);
+        }
+        cb(null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(
+        createReadStream(localPath, { start: startOffset }),
+        counter,
+        this.client.createWriteStream(remotePath, { flags: startOffset > 0 ? 'r+' : 'w', start: startOffset })
+      );
+      const done = progress('completed', 0, 0);
+      onProgress?.(done);
+      this.emit('progress', done);
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('ENOENT'))
+        throw new FileNotFoundError(`${errorMessages.notFound}: ${localPath}`);
+      throw new UploadError(
+        `${errorMessages.uploadFailed}: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async ensureDir(path: string): Promise<void> {
+    await this.ensureConnected();
+    try {
+      if (await this.client.exists(path)) return;
+      await this.client.mkdir(path, true);
+    } catch (err) {
+      throw new UploadError(
+        `Cannot create directory ${path}: ${err instanceof Error ? err.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  async mkdir(path: string): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await this.client.mkdir(path, false);
+    } catch (err) {
+      throw toFileOperationError(err, path);
+    }
+  }
+
+  async remove(path: string, isDirectory: boolean): Promise<void> {
+    await this.ensureConnected();
+    try {
+      if (isDirectory) await this.client.rmdir(path, true);
+      else await this.client.delete(path);
+    } catch (err) {
+      throw toFileOperationError(err, path);
+    }
+  }
+
+  async rename(fromPath: string, toPath: string): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await this.client.rename(fromPath, toPath);
+    } catch (err) {
+      throw toFileOperationError(err, fromPath);
+    }
+  }
+
+  async chmod(path: string, mode: number): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await this.client.chmod(path, mode & 0o7777);
+    } catch (err) {
+      throw toFileOperationError(err, path);
+    }
+  }
+
+  async size(path: string): Promise<number> {
+    await this.ensureConnected();
+    try {
+      return (await this.client.stat(path)).size;
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async modifiedTime(path: string): Promise<Date | null> {
+    await this.ensureConnected();
+    try {
+      const st = await this.client.stat(path);
+      return st.modifyTime ? new Date(st.modifyTime) : null;
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  /** Plain SFTP has no server-side hashing; callers fall back to a size check */
+  async checksum(_path: string): Promise<RemoteChecksum | null> {
+    return null;
+  }
+
+  async getFileInfo(path: string): Promise<FileInfo> {
+    await this.ensureConnected();
+    try {
+      const st = await this.client.stat(path);
+      const type: FileInfo['type'] = st.isSymbolicLink ? 'LINK' : st.isDirectory ? 'DIR' : 'FILE';
+      const typeChar = type === 'LINK' ? 'l' : type === 'DIR' ? 'd' : '-';
+      return {
+        path,
+        type,
+        size: type === 'DIR' ? null : st.size,
+        date: st.modifyTime ? new Date(st.modifyTime).toISOString() : null,
+        permissions: formatMode(st.mode, typeChar),
+      };
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async preview(path: string, maxBytes?: number): Promise<string> {
+    await this.ensureConnected();
+    const limit = maxBytes ?? defaults.maxPreviewBytes;
+    const chunks: Buffer[] = [];
+    let total = 0;
+    try {
+      const stream = this.client.createReadStream(path, { start: 0, end: Math.max(0, limit - 1) });
+      for await (const chunk of stream) {
+        const buf = chunk as Buffer;
+        const rem = limit - total;
+        if (rem <= 0) break;
+        chunks.push(buf.subarray(0, rem));
+        total += Math.min(buf.length, rem);
+      }
+      return Buffer.concat(chunks).toString('utf-8', 0, total);
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async readRange(path: string, offset: number, length: number): Promise<Buffer> {
+    await this.ensureConnected();
+    if (length <= 0) return Buffer.alloc(0);
+    const chunks: Buffer[] = [];
+    let total = 0;
+    try {
+      const stream = this.client.createReadStream(path, { start: offset, end: offset + length - 1 });
+      for await (const chunk of stream) {
+        const buf = chunk as Buffer;
+        const rem = length - total;
+        if (rem <= 0) break;
+        chunks.push(buf.subarray(0, rem));
+        total += Math.min(buf.length, rem);
+      }
+      return Buffer.concat(chunks, total);
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async readStream(path: string, sink: Writable, offset = 0): Promise<void> {
+    await this.ensureConnected();
+    try {
+      await pipeline(this.client.createReadStream(path, { start: offset }), sink);
+    } catch (err) {
+      if (isNotFound(err)) throw new FileNotFoundError(`${errorMessages.notFound}: ${path}`);
+      throw err;
+    }
+  }
+
+  async search(path: string, pattern: string, maxDepth?: number, onMatch?: (item: FileItem) => void): Promise<FileItem[]> {
+    await this.ensureConnected();
+    const depthLimit = maxDepth ?? defaults.maxSearchDepth;
+    const results: FileItem[] = [];
+    const pat = pattern.toLowerCase();
+
+    const recurse = async (cur: string, depth: number): Promise<void> => {
+      if (depth >= depthLimit) return;
+      try {
+        const items = await this.list(cur);
+        for (const file of items) {
+          const full = cur === '/' ? `/${file.name}` : `${cur}/${file.name}`;
+          if (file.name.toLowerCase().includes(pat)) {
+            const matched = { ...file, path: cur };
+            results.push(matched);
+            onMatch?.(matched);
+          }
+          if (file.type === 'DIR') await recurse(full, depth + 1);
+        }
+      } catch {
+        /* skip */
+      }
+    };
+    await recurse(path, 0);
+    return results;
+  }
+
+  on(event: FTPEventType, callback: FTPProgressCallback | FTPErrorCallback): this {
+    super.on(event, callback);
+    return this;
+  }
+
+  off(event: FTPEventType, callback: FTPProgressCallback | FTPErrorCallback): this {
+    super.off(event, callback);
+    return this;
+  }
+}
+
+export function createSFTPService(config: FTPConfig): SFTPService {
+  return new SFTPService({
+    protocol: 'sftp',
+    host: config.host,
+    port: config.port ?? defaults.sftpPort,
+    user: config.user ?? defaults.ftpUser,
+    password: config.password ?? defaults.ftpPassword,
+    timeout: config.timeout ?? defaults.ftpTimeout,
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Post-download integrity check: compare the local file with a server-side
+ * hash (HASH/XSHA256/XSHA1/XMD5) or, when the server has none, its size.
+ */
+
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import type { HashAlgorithm, IRemoteService, RemoteChecksum, VerifyResult } from '../types/index.js';
+import { getFileSize } from './fileSystem.js';
+
+export async function hashLocalFile(path: string, algorithm: HashAlgorithm): Promise<string> {
+  const hash = createHash(algorithm);
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Verifies a downloaded file on the session that fetched it. Never throws:
+ * anything that prevents a comparison is reported as 'unverified'.
+ */
+export async function verifyDownload(
+  session: IRemoteService,
+  remotePath: string,
+  localPath: string
+): Promise<VerifyResult> {
+  let remote: RemoteChecksum | null = null;
+  try {
+    remote = await session.checksum(remotePath);
+  } catch {
+    /* hash command failed: fall back to the size */
+  }
+  try {
+    if (remote) {
+      const actual = await hashLocalFile(localPath, remote.algorithm);
+      return {
+        method: remote.algorithm,
+        status: actual === remote.value ? 'ok' : 'mismatch',
+        expected: remote.value,
+        actual,
+      };
+    }
+    const expected = await session.size(remotePath);
+    const actual = await getFileSize(localPath);
+    return {
+      method: 'size',
+      status: actual === expected ? 'ok' : 'mismatch',
+      expected: String(expected),
+      actual: String(actual),
+    };
+  } catch (err) {
+    return {
+      method: null,
+      status: 'unverified',
+      error: err instanceof Error ? err.message : 'Cannot verify',
+    };
+  }
+}
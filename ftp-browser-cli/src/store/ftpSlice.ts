@@ -1,26 +1,55 @@
 /**
- * FTP store: connection, current path, file list, navigate, goBack.
+ * FTP store (FTP or SFTP backend): connection, current path, file list, navigate, goBack.
  */
 
 import { create } from 'zustand';
-import { createFTPService, setFtpService } from '../services/index.js';
-import type { FTPSlice, FTPConfig } from '../types/index.js';
-import { paths } from '../utils/constants.js';
+import { createRemoteService, downloadManager, setFtpService } from '../services/index.js';
+import type { FTPSlice, FTPConfig, FileItem, IRemoteService } from '../types/index.js';
+import { defaults, paths } from '../utils/constants.js';
+import { getParentPath, normalizePath } from '../utils/path.js';
 
-let ftpService: import('../services/ftpClient.js').FTPService | null = null;
+let ftpService: IRemoteService | null = null;
+
+/**
+ * Resolves the initial location. A path without a trailing slash may name a
+ * file: look it up in the parent listing (LIST on a file path succeeds on
+ * many servers, so listing the path itself cannot tell them apart).
+ */
+async function resolveStartPath(
+  svc: IRemoteService,
+  start: string,
+  isDir: boolean
+): Promise<{ dir: string; files: FileItem[]; file: string | null }> {
+  if (!isDir && start !== paths.root) {
+    const parent = getParentPath(start);
+    const name = start.split('/').filter(Boolean).pop() ?? '';
+    try {
+      const siblings = await svc.list(parent);
+      if (siblings.some((f) => f.name === name && f.type === 'FILE')) {
+        return { dir: parent, files: siblings, file: name };
+      }
+    } catch {
+      /* fall through and list start as a directory */
+    }
+  }
+  return { dir: start, files: await svc.list(start), file: null };
+}
 
 export const useFTPStore = create<FTPSlice>((set, get) => ({
   config: null,
   connected: false,
   currentPath: paths.root,
   files: [],
+  listedAt: null,
   loading: false,
   error: null,
+  startFile: null,
 
-  connect: async (config: FTPConfig) => {
+  connect: async (config: FTPConfig, startPath?: string) => {
     set({ loading: true, error: null });
     try {
-      const svc = createFTPService({
+      const svc = createRemoteService({
+        protocol: config.protocol,
         host: config.host,
         port: config.port,
         user: config.user,
@@ -39,9 +68,19 @@ export const useFTPStore = create<FTPSlice>((set, get) => ({
         loading: false,
         error: null,
         currentPath: paths.root,
+        listedAt: null, // files are not from this connection until the start directory is listed
       });
-      const rootFiles = await svc.list(paths.root);
-      set({ files: rootFiles, currentPath: paths.root });
+      const start = startPath ? normalizePath(startPath) : paths.root;
+      try {
+        const resolved = await resolveStartPath(svc, start, startPath?.endsWith('/') ?? true);
+        set({ files: resolved.files, listedAt: Date.now(), currentPath: resolved.dir, startFile: resolved.file });
+      } catch (err) {
+        if (start === paths.root) throw err;
+        // Start directory unusable: fall back to root and report why
+        const rootFiles = await svc.list(paths.root);
+        const msg = err instanceof Error ? err.message : `Cannot open ${start}`;
+        set({ files: rootFiles, listedAt: Date.now(), currentPath: paths.root, error: msg });
+      }
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Connection failed';
       ftpService = null;
@@ -64,6 +103,8 @@ export const useFTPStore = create<FTPSlice>((set, get) => ({
         config: null,
         currentPath: paths.root,
         files: [],
+        listedAt: null,
+        startFile: null,
         loading: false,
         error: null,
       });
@@ -78,7 +119,7 @@ export const useFTPStore = create<FTPSlice>((set, get) => ({
     set({ loading: true, error: null });
     try {
       const files = await ftpService.list(path);
-      set({ files, currentPath: path, loading: false, error: null });
+      set({ files, listedAt: Date.now(), currentPath: path, loading: false, error: null });
     } catch (err) {
       const msg = err instanceof Error ? err.message : 'Failed to list directory';
       set({ loading: false, error: msg });
@@ -100,6 +141,7 @@ export const useFTPStore = create<FTPSlice>((set, get) => ({
     await get().navigate(parent);
   },
 
+  clearStartFile: () => set({ startFile: null }),
   setError: (error) => set({ error }),
   clearError: () => set({ error: null }),
 }));
@@ -107,3 +149,23 @@ export const useFTPStore = create<FTPSlice>((set, get) => ({
 export function getFtpService(): typeof ftpService {
   return ftpService;
 }
+
+// Refresh the listing once uploads into the current directory settle.
+// Lists without the loading flag so the file list and cursor stay in place.
+let refreshTimer: NodeJS.Timeout | null = null;
+downloadManager.on('uploaded', (remotePath: string) => {
+  const dir = getParentPath(remotePath);
+  if (dir !== useFTPStore.getState().currentPath) return;
+  if (refreshTimer) clearTimeout(refreshTimer);
+  refreshTimer = setTimeout(() => {
+    refreshTimer = null;
+    const state = useFTPStore.getState();
+    if (!ftpService || !state.connected || state.loading || state.currentPath !== dir) return;
+    ftpService
+      .list(dir)
+      .then((files) => {
+        if (useFTPStore.getState().currentPath === dir) useFTPStore.setState({ files, listedAt: Date.now() });
+      })
+      .catch(() => {});
+  }, defaults.uploadRefreshDelayMs);
+});
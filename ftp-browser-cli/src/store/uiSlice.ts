@@ -1,14 +1,17 @@
 /**
- * UI store: mode, selection, pagination, search, downloads.
+ * UI store: mode, selection, pagination, search, downloads (mirrored from downloadManager).
  */
 
 import { create } from 'zustand';
-import type { AppMode, FileItem, DownloadProgress, UISlice } from '../types/index.js';
+import type { AppMode, FileItem, DownloadProgress, SearchProgress, TransferConflict, UISlice } from '../types/index.js';
 import { calculateItemsPerPage } from '../utils/constants.js';
+import { downloadManager } from '../services/downloadManager.js';
 
 export interface UIStore extends UISlice {
   setSearchResults: (results: FileItem[]) => void;
   setIsSearching: (v: boolean) => void;
+  setSearchError: (error: string | null) => void;
+  setSearchProgress: (progress: SearchProgress | null) => void;
   resetSelection: () => void;
   nextPage: (totalItems: number) => void;
   prevPage: () => void;
@@ -27,8 +30,13 @@ export const useUIStore = create<UIStore>((set, get) => ({
   searchQuery: '',
   searchResults: [],
   isSearching: false,
+  searchError: null,
+  searchProgress: null,
   downloads: [],
+  downloadQueue: [],
+  downloadConflicts: [],
   checkedItems: new Set<number>(),
+  fileOp: null,
   searchInputFocused: true,
 
   setMode: (mode) => {
@@ -43,7 +51,7 @@ export const useUIStore = create<UIStore>((set, get) => ({
 
   setSearchQuery: (query) => {
     set({ searchQuery: query });
-    if (query === '') set({ searchResults: [], isSearching: false });
+    if (query === '') set({ searchResults: [], isSearching: false, searchError: null, searchProgress: null });
   },
 
   setSearchResults: (results) => {
@@ -52,6 +60,10 @@ export const useUIStore = create<UIStore>((set, get) => ({
 
   setIsSearching: (v) => set({ isSearching: v }),
 
+  setSearchError: (error) => set({ searchError: error }),
+
+  setSearchProgress: (progress) => set({ searchProgress: progress }),
+
   addDownload: (d) => {
     const state = get();
     const idx = state.downloads.findIndex((x) => x.id === d.id);
@@ -77,6 +89,15 @@ export const useUIStore = create<UIStore>((set, get) => ({
     set({ downloads: get().downloads.filter((d) => d.id !== id) });
   },
 
+  setDownloadQueue: (queue) => set({ downloadQueue: queue }),
+
+  setDownloadConflicts: (conflicts) => set({ downloadConflicts: conflicts }),
+
+  // Not via setMode: the cursor stays on the listing the operation acts on
+  startFileOp: (op) => set({ fileOp: op, mode: 'fileop' }),
+
+  endFileOp: () => set({ fileOp: null, mode: 'browse' }),
+
   toggleCheck: (index: number) => {
     const next = new Set(get().checkedItems);
     if (next.has(index)) {
@@ -143,3 +164,11 @@ export const useUIStore = create<UIStore>((set, get) => ({
     set({ searchResults: [...state.searchResults, ...items] });
   },
 }));
+
+// Mirror the download manager (single source of truth for transfers) into the UI
+downloadManager.on('update', (d: DownloadProgress) => useUIStore.getState().addDownload(d));
+downloadManager.on('remove', (id: string) => useUIStore.getState().removeDownload(id));
+downloadManager.on('queue', (queue: string[]) => useUIStore.getState().setDownloadQueue(queue));
+downloadManager.on('conflicts', (conflicts: TransferConflict[]) =>
+  useUIStore.getState().setDownloadConflicts(conflicts)
+);
@@ -1,5 +1,10 @@
+import type { Writable } from 'stream';
+
 // Core Types
+export type RemoteProtocol = 'ftp' | 'sftp';
+
 export interface FTPConfig {
+  protocol?: RemoteProtocol; // default: 'ftp'
   host: string;
   port?: number;
   user?: string;
@@ -9,6 +14,29 @@ export interface FTPConfig {
   passive?: boolean;
 }
 
+/** Named connection profile from ~/.config/ftp-browser/profiles.json */
+export interface ConnectionProfile {
+  name: string;
+  protocol?: RemoteProtocol;
+  host: string;
+  port?: number;
+  user?: string;
+  secure?: boolean;
+  remotePath?: string; // initial remote directory
+  downloadDir?: string;
+  search?: Partial<SearchLimits>; // overrides the default search limits
+  index?: boolean; // crawl the host into the remote index on connect, as --index
+}
+
+/** Connection flags given without a host; applied over the profile picked in the UI */
+export interface ConnectionOverrides {
+  user?: string; // -u
+  password?: string; // -p
+  passwordFile?: string; // --password-file
+  port?: number; // -P
+  timeout?: number; // --timeout
+}
+
 export type FileType = 'DIR' | 'FILE' | 'LINK';
 
 export interface FileItem {
@@ -19,9 +47,27 @@ export interface FileItem {
   target?: string; // symlink target
   permissions?: string; // Unix permissions string (e.g., "drwxr-xr-x")
   path?: string; // parent directory path (set by search)
+  match?: ContentMatch; // line found by a content search
+}
+
+export interface ContentMatch {
+  line: number; // 1-based
+  offset: number; // where the line starts in the file
+  text: string; // trimmed, cut to defaults.contentMatchChars
 }
 
-export type AppMode = 'browse' | 'search' | 'preview' | 'download' | 'help' | 'connecting';
+export type AppMode =
+  | 'browse'
+  | 'search'
+  | 'preview'
+  | 'download'
+  | 'upload'
+  | 'fileop'
+  | 'help'
+  | 'connecting'
+  | 'transfers'
+  | 'archive'
+  | 'finder';
 
 export interface AppState {
   mode: AppMode;
@@ -41,10 +87,108 @@ export interface SearchState {
   maxDepth: number; // default: 5
 }
 
-export type DownloadStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'paused' | 'cancelled';
+// Search box query, parsed by services/searchQuery.ts
+export type Comparison = '<' | '<=' | '>' | '>=' | '=';
+export type NameMatch = 'substring' | 'glob' | 'regex';
+
+export type SearchTerm =
+  | { kind: 'name'; match: NameMatch; pattern: RegExp }
+  | { kind: 'type'; type: FileType }
+  | { kind: 'size'; op: Comparison; bytes: number }
+  | { kind: 'modified'; op: Comparison; time: number } // epoch ms; '>' is more recent
+  | { kind: 'ext'; extensions: string[] }; // any of, lower case without the leading dot
+
+export interface SearchQuery {
+  text: string;
+  caseSensitive: boolean; // name and content patterns
+  terms: SearchTerm[]; // all must match
+  content: RegExp | null; // grep: lines to find inside the files that match the terms
+  scope: SearchScope;
+}
+
+/** Bounds of a recursive search: defaults, then the profile's, then CLI flags */
+export interface SearchLimits {
+  maxDepth: number; // directory levels listed, the start directory being the first
+  maxResults: number;
+  timeoutMs: number; // 0: no timeout
+  exclude: string[]; // globs of directories not descended into; one with a / matches the path
+}
+
+/** Limits given in the query (depth:, limit:, timeout:, exclude:) for that search only */
+export interface SearchScope {
+  maxDepth?: number;
+  maxResults?: number;
+  timeoutMs?: number;
+  exclude: string[]; // added to the configured globs
+  excludeNone: boolean; // exclude:none drops the configured globs
+}
+
+export type SearchStop = 'results' | 'timeout' | 'depth';
+
+export interface SearchProgress {
+  scanned: number; // directories listed
+  queued: number; // directories waiting to be listed
+  current: string | null; // directory listed last; null once the search ended
+  excluded: number; // directories skipped by an exclude glob
+  beyondDepth: number; // directories below maxDepth, not listed
+  stoppedBy: { limit: SearchStop; value: number } | null; // limit that cut the search short, with its value
+}
+
+/** A path in the remote index; path is the parent directory, as in search results */
+export interface IndexEntry extends FileItem {
+  path: string;
+  listedAt: number; // when its directory was last listed (ms since epoch)
+}
+
+export interface IndexStatus {
+  loaded: boolean; // cache file read, or found missing
+  enabled: boolean; // a cache exists or a crawl was started; browsing then keeps it current
+  directories: number;
+  entries: number;
+  oldest: number | null; // listedAt of the least recently listed directory
+  crawl: { scanned: number; queued: number; current: string | null } | null; // while crawling
+  error: string | null; // last cache or crawl failure
+  version: number; // bumped whenever the tree changes
+}
+
+export interface IndexCrawl {
+  roots: string[];
+  deep: boolean; // also every directory below the roots
+  refreshMs: number; // directories listed more recently are not listed again (their cached subdirectories still are)
+  exclude: string[]; // directory globs not crawled into (see excludeMatcher)
+}
+
+export interface FuzzyMatch {
+  score: number; // higher is better
+  positions: number[]; // matched character indexes in the text
+}
+
+export type DownloadStatus = 'pending' | 'downloading' | 'completed' | 'failed' | 'paused' | 'cancelled' | 'skipped';
+
+export type TransferDirection = 'download' | 'upload';
+
+/** How a finished download was checked against the server */
+export type HashAlgorithm = 'sha256' | 'sha1' | 'md5';
+export type VerifyMethod = HashAlgorithm | 'size';
+
+export interface VerifyResult {
+  method: VerifyMethod | null; // null while checking, or when nothing could be compared
+  status: 'checking' | 'ok' | 'mismatch' | 'unverified';
+  expected?: string; // remote hash or size
+  actual?: string; // local hash or size
+  error?: string; // why the file could not be verified
+}
+
+/** Whole-file hash computed by the server */
+export interface RemoteChecksum {
+  algorithm: HashAlgorithm;
+  value: string; // lowercase hex
+}
 
 export interface DownloadProgress {
   id: string; // unique identifier
+  direction?: TransferDirection; // default: 'download'
+  resume?: boolean; // continue the partial target file instead of overwriting it
   filename: string;
   remotePath: string;
   localPath: string;
@@ -54,6 +198,38 @@ export interface DownloadProgress {
   eta: number; // estimated seconds remaining
   status: DownloadStatus;
   error?: string;
+  verification?: VerifyResult; // downloads: result of the post-transfer check
+  retry?: TransferRetry; // set once an attempt failed with a retryable error
+}
+
+/** Automatic retry state of a transfer (see RetryPolicy) */
+export interface TransferRetry {
+  attempt: number; // the attempt waiting or running, 2..maxAttempts
+  maxAttempts: number;
+  nextAt?: number; // epoch ms the waiting attempt starts; unset once it runs
+}
+
+/** What to do when a download's local file already exists */
+export type ConflictAction = 'overwrite' | 'resume' | 'skip' | 'rename';
+export type ConflictPolicy = ConflictAction | 'ask';
+
+/** Backoff for transient failures: delay = baseDelayMs * 2^(n-1), capped, +/- jitter */
+export interface RetryPolicy {
+  maxAttempts: number; // including the first; 1 = no retry
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: number; // 0..1
+}
+
+/** A queued download waiting for the user to resolve a local name conflict */
+export interface TransferConflict {
+  id: string; // download id
+  filename: string;
+  remotePath: string;
+  localPath: string;
+  localSize: number;
+  claimedBy?: string; // remote path of an unfinished download already writing to localPath
+  inBatch: boolean; // other downloads were queued by the same action ("apply to all")
 }
 
 export type FTPEventType = 'progress' | 'error' | 'connected' | 'disconnected';
@@ -76,10 +252,70 @@ export interface FileInfo {
   target?: string; // for symlinks
 }
 
+// Preview pager: a byte range of a remote file held in memory
+export interface PagerWindow {
+  start: number; // offset of data[0] in the file
+  data: Buffer;
+  size: number | null; // file size; null until known (no SIZE and EOF not reached)
+  linesBefore: number | null; // newlines before start; null when unknown (never read from 0)
+}
+
+// Bytes [offset, offset + length) of what a pager shows; fewer at the end
+export type RangeReader = (offset: number, length: number) => Promise<Buffer>;
+
+export interface PagerLine {
+  offset: number; // where the line starts in the file
+  number: number | null; // 1-based; null when unknown
+  text: string;
+}
+
+// CSV/TSV table view (Preview)
+export interface TableLayout {
+  delimiter: string;
+  header: string[];
+  widths: number[]; // display width of each column
+}
+
+// Archive inspector
+export type ArchiveFormat = 'zip' | 'tar' | 'tgz';
+export type Compression = 'gzip' | 'bzip2' | 'xz'; // single compressed files (Preview)
+
+export interface ArchiveEntry {
+  name: string; // path inside the archive
+  size: number; // uncompressed bytes
+  compressedSize: number | null; // zip only
+  date: Date | null;
+  isDirectory: boolean;
+  link: string | null; // tar symlink/hardlink target
+  offset: number; // zip: local header in the file; tar: header in the (decompressed) tar stream
+  method: number | null; // zip compression method: 0 stored, 8 deflate
+  encrypted: boolean;
+}
+
+// Preview syntax highlighting
+export type SyntaxLanguage = 'json' | 'yaml' | 'xml' | 'html' | 'ini' | 'shell';
+export type TokenKind = 'key' | 'string' | 'number' | 'keyword' | 'comment' | 'tag' | 'variable';
+
+export interface SyntaxToken {
+  text: string;
+  kind: TokenKind | null; // null: plain text
+}
+
 // Component Props Types
 export interface AppProps {
   config: FTPConfig;
   downloadDir: string;
+  getStartFile?: boolean; // download the start URL's file once connected
+  searchLimits?: SearchLimits; // default: resolveSearchLimits()
+  indexOnConnect?: boolean; // crawl the host into the remote index once connected
+}
+
+export interface ProfilePickerProps {
+  profiles: ConnectionProfile[];
+  profilesPath: string;
+  error?: string | null;
+  onSelect: (profile: ConnectionProfile) => void;
+  onCancel: () => void;
 }
 
 export interface HeaderProps {
@@ -119,6 +355,7 @@ export interface StatusBarProps {
 export interface InputPromptProps {
   prompt: string;
   value: string;
+  mask?: string; // render each typed character as this (e.g. '*' for passwords)
   onChange: (value: string) => void;
   onSubmit: () => void;
   onCancel: () => void;
@@ -131,11 +368,17 @@ export interface SearchBoxProps {
   onCancel: () => void;
   isSearching?: boolean;
   inputFocused?: boolean;
+  error?: string | null;
+  progress?: SearchProgress | null;
+  limits?: SearchLimits; // shown with the syntax while the query is empty
 }
 
 export interface PreviewProps {
-  filePath: string;
-  content: string;
+  remotePath: string;
+  size: number | null; // from the listing; used when SIZE is not available
+  tail?: boolean; // open at the end of the file and follow it
+  jumpTo?: number; // offset of a line to open at and mark (a content search match)
+  reader?: RangeReader; // content from elsewhere (an archive entry); remotePath then only names it
   onClose: () => void;
 }
 
@@ -143,6 +386,46 @@ export interface ProgressBarProps {
   progress: DownloadProgress;
 }
 
+export interface TransfersViewProps {
+  downloads: DownloadProgress[];
+  queue: string[]; // pending ids in start order
+  onClose: () => void;
+}
+
+export interface ArchiveViewProps {
+  remotePath: string;
+  size: number | null; // from the listing; SIZE is asked when null
+  downloadDir: string; // where entries are extracted
+  onClose: () => void;
+}
+
+export interface FuzzyFinderProps {
+  host: string;
+  status: IndexStatus;
+  entries: IndexEntry[];
+  onOpen: (entry: IndexEntry) => void; // go to the entry (its directory, cursor on it)
+  onRefresh: (dir: string) => void; // re-list one directory
+  onBuild: () => void; // crawl the host, re-listing directories not listed recently
+  onClose: () => void;
+}
+
+export interface FileOpDialogProps {
+  op: FileOpRequest;
+  onDone: (error: string | null) => void; // ran: failure summary, or null
+  onCancel: () => void;
+}
+
+export interface PermissionEditorProps {
+  op: FileOpRequest; // kind 'chmod'
+  onDone: (error: string | null) => void;
+  onCancel: () => void;
+}
+
+export interface EditSessionProps {
+  op: FileOpRequest; // kind 'edit', one file
+  onDone: (error: string | null) => void; // finished: problem to report, or null
+}
+
 export interface ModalProps {
   title: string;
   message: string;
@@ -166,17 +449,29 @@ export interface FTPSlice {
   connected: boolean;
   currentPath: string;
   files: FileItem[];
+  listedAt: number | null; // when files was listed from the server; null before the first listing
   loading: boolean;
   error: string | null;
-  connect: (config: FTPConfig) => Promise<void>;
+  startFile: string | null; // file in currentPath named by the start URL
+  connect: (config: FTPConfig, startPath?: string) => Promise<void>;
   disconnect: () => Promise<void>;
   listDirectory: (path: string) => Promise<void>;
   navigate: (path: string) => Promise<void>;
   goBack: () => Promise<void>;
+  clearStartFile: () => void;
   setError: (error: string | null) => void;
   clearError: () => void;
 }
 
+/** Remote file management started from the browser */
+export type FileOpKind = 'delete' | 'rename' | 'move' | 'mkdir' | 'chmod' | 'edit';
+
+export interface FileOpRequest {
+  kind: FileOpKind;
+  items: FileItem[]; // targets, each with path (its parent directory) set
+  dir: string; // directory shown when the operation started
+}
+
 export interface UISlice {
   mode: AppMode;
   selectedIndex: number;
@@ -185,8 +480,13 @@ export interface UISlice {
   searchQuery: string;
   searchResults: FileItem[];
   isSearching: boolean;
+  searchError: string | null; // query that does not parse
+  searchProgress: SearchProgress | null; // of the running or last search
   downloads: DownloadProgress[];
+  downloadQueue: string[]; // pending download ids in start order
+  downloadConflicts: TransferConflict[]; // downloads waiting for an overwrite/resume/skip/rename choice
   checkedItems: Set<number>;
+  fileOp: FileOpRequest | null; // operation shown while mode is 'fileop'
   setMode: (mode: AppMode) => void;
   setSelectedIndex: (index: number) => void;
   setCurrentPage: (page: number) => void;
@@ -194,6 +494,10 @@ export interface UISlice {
   addDownload: (download: DownloadProgress) => void;
   updateDownload: (id: string, updates: Partial<DownloadProgress>) => void;
   removeDownload: (id: string) => void;
+  setDownloadQueue: (queue: string[]) => void;
+  setDownloadConflicts: (conflicts: TransferConflict[]) => void;
+  startFileOp: (op: FileOpRequest) => void;
+  endFileOp: () => void;
   toggleCheck: (index: number) => void;
   clearChecked: () => void;
   isItemChecked: (index: number) => boolean;
@@ -222,22 +526,62 @@ export interface IFileParser {
   parseWindowsList(line: string): FileItem | null;
 }
 
-export interface IFTPService {
+/**
+ * Protocol-neutral remote filesystem. Implemented by FTPService (FTP/FTPS)
+ * and SFTPService (SSH); everything above the service layer talks to this.
+ */
+export interface IRemoteService {
+  readonly config: FTPConfig;
   connect(): Promise<boolean>;
+  /** Open a fresh, connected service of the same protocol (for transfers) */
+  openSession(): Promise<IRemoteService>;
   disconnect(): Promise<void>;
+  /** False once the connection is known to be closed; no round trip to the server */
+  isAlive(): boolean;
   list(path: string): Promise<FileItem[]>;
+  /** Overwrites localPath unless resume is set (then continues a shorter local file) */
   download(
     remotePath: string,
     localPath: string,
-    onProgress?: FTPProgressCallback
+    onProgress?: FTPProgressCallback,
+    resume?: boolean
   ): Promise<void>;
   downloadDirectory(
     remotePath: string,
     localPath: string,
     onProgress?: FTPProgressCallback
   ): Promise<void>;
+  upload(
+    localPath: string,
+    remotePath: string,
+    onProgress?: FTPProgressCallback,
+    resume?: boolean
+  ): Promise<void>;
+  /** Create a remote directory and any missing parents */
+  ensureDir(path: string): Promise<void>;
+  /** Create one remote directory (fails if it exists) */
+  mkdir(path: string): Promise<void>;
+  /** Delete a file, or a directory with everything in it */
+  remove(path: string, isDirectory: boolean): Promise<void>;
+  /** Rename or move a file or directory */
+  rename(fromPath: string, toPath: string): Promise<void>;
+  /** Set permission bits, setuid/setgid/sticky included (SITE CHMOD on FTP) */
+  chmod(path: string, mode: number): Promise<void>;
+  /** Remote file size in bytes */
+  size(path: string): Promise<number>;
+  /** Last modification time, or null when the server cannot tell (no MDTM) */
+  modifiedTime(path: string): Promise<Date | null>;
+  /** Server-side hash of a file, or null when the server cannot compute one */
+  checksum(path: string): Promise<RemoteChecksum | null>;
   getFileInfo(path: string): Promise<FileInfo>;
   preview(path: string, maxBytes?: number): Promise<string>;
+  /** Up to length bytes from offset (REST on FTP); fewer at the end of the file */
+  readRange(path: string, offset: number, length: number): Promise<Buffer>;
+  /**
+   * Writes the file from offset into sink over a connection of its own. A
+   * failed sink write ends the transfer and rejects with the sink's error.
+   */
+  readStream(path: string, sink: Writable, offset?: number): Promise<void>;
   search(path: string, pattern: string, maxDepth?: number, onMatch?: (item: FileItem) => void): Promise<FileItem[]>;
   on(
     event: FTPEventType,
@@ -250,10 +594,24 @@ export interface IFTPService {
 }
 
 export interface IDownloadManager {
-  addDownload(remotePath: string, localPath: string): string;
+  addDownload(remotePath: string, localPath: string, batch?: string): string;
+  addDirectory(remotePath: string, localPath: string, recursive?: boolean, batch?: string): Promise<void>;
+  addUpload(localPath: string, remotePath: string, resume?: boolean): string;
+  addUploadDirectory(localPath: string, remotePath: string, resume?: boolean): Promise<void>;
   cancelDownload(id: string): void;
   pauseDownload(id: string): void;
   resumeDownload(id: string): void;
+  retryDownload(id: string): void;
+  moveInQueue(id: string, delta: number): void;
+  removeDownload(id: string): void;
+  clearFinished(): void;
+  setMaxConcurrent(n: number): void;
+  setConflictPolicy(policy: ConflictPolicy): void;
+  setRetryOnMismatch(enabled: boolean): void;
+  createBatch(): string;
+  resolveConflict(id: string, action: ConflictAction, applyToAll?: boolean): void;
+  getConflicts(): TransferConflict[];
   getDownloads(): DownloadProgress[];
+  getQueue(): string[];
   onProgress(id: string, callback: FTPProgressCallback): void;
 }
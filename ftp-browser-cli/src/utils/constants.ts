@@ -1,4 +1,5 @@
 import chalk from 'chalk';
+import type { SyntaxLanguage } from '../types/index.js';
 
 // Color Scheme
 export const colors = {
@@ -22,6 +23,15 @@ export const colors = {
   sizeSmall: chalk.gray,      // < 1MB
   sizeMedium: chalk.yellow,   // 1MB - 100MB
   sizeLarge: chalk.red,       // > 100MB
+
+  // Syntax highlighting (Preview)
+  syntaxKey: chalk.cyan,
+  syntaxString: chalk.green,
+  syntaxNumber: chalk.yellow,
+  syntaxKeyword: chalk.magenta,
+  syntaxComment: chalk.gray,
+  syntaxTag: chalk.blue,
+  syntaxVariable: chalk.cyan,
 } as const;
 
 // Icons
@@ -44,6 +54,7 @@ export const icons = {
   error: '❌',
   warning: '⚠️',
   download: '⬇️',
+  upload: '⬆️',
   search: '🔍',
   folder: '📂',
 } as const;
@@ -72,20 +83,67 @@ export const defaults = {
   ftpTimeout: 10000, // 10 seconds
   ftpSecure: false,
   ftpPassive: true,
+  protocol: 'ftp',
+
+  // SFTP
+  sftpPort: 22,
   
   // UI
   itemsPerPage: 20,
-  maxPreviewLines: 50,
   maxPreviewBytes: 10240, // 10KB
+  pagerChunkBytes: 262144, // 256KB - one ranged read while scrolling the preview
+  pagerMaxBytes: 8388608, // 8MB - preview window kept in memory; trimmed at the far end
+  pagerHorizontalStep: 8, // columns per Left/Right
+  tailBytes: 65536, // 64KB - how much of the end the tail view starts with
+  tailPollMs: 2000, // follow mode: size check interval
+  binarySniffBytes: 8192, // start of the preview checked for binary content
+  tableMaxColumnWidth: 32, // CSV/TSV cells wider than this are cut
+  tableSampleRows: 200, // rows measured for the column widths
+
+  // Archive inspector
+  archivePreviewBytes: 8388608, // 8MB - how much of an entry is read for its preview
   
   // Search
-  maxSearchDepth: 5,
+  maxSearchDepth: 5, // directory levels, the start directory being the first
+  maxSearchResults: 1000, // the search stops once this many are found
+  searchTimeoutMs: 120000, // 2 minutes; 0 disables it
   searchDebounceMs: 300,
+  searchConnections: 4, // separate connections listing directories in parallel
+  contentSearchMaxBytes: 8388608, // 8MB - read from each file by grep:; later matches are not found
+  contentSearchMaxMatches: 100, // matching lines reported per file
+  contentSearchLineBytes: 4096, // longer lines are matched on their start only
+  contentMatchChars: 200, // line text kept with a match
   
+  // Remote index (Ctrl-P)
+  indexConnections: 2, // separate connections crawling the host
+  indexRefreshMs: 3600000, // 1 hour - a crawl re-lists directories listed longer ago
+  indexStaleMs: 86400000, // 1 day - finder entries listed longer ago show their age
+  indexSaveEvery: 500, // directories crawled between cache writes
+  indexSaveDelayMs: 2000, // cache write after browsing updated the index
+  indexNotifyMs: 500, // status updates while crawling
+  finderMaxResults: 500, // best matches kept for the list
+
   // Download
   downloadDir: './downloads',
   downloadTimeout: 3600000, // 1 hour
   resumeThreshold: 1024, // 1KB - files smaller than this won't resume
+  maxConcurrentDownloads: 3, // separate connections used for transfers
+  conflictPolicy: 'ask', // local file exists: ask | overwrite | resume | skip | rename
+  verifyRetries: 2, // --verify: re-downloads after a checksum/size mismatch
+  sessionIdleMs: 60000, // 1 minute - idle transfer sessions older than this are closed, not reused
+
+  // Retry (transient network errors only, see isRetryableError)
+  retryMaxAttempts: 4, // first try included; 1 disables retries
+  retryBaseDelayMs: 1000, // doubled after every failed attempt
+  retryMaxDelayMs: 30000,
+  retryJitter: 0.25, // +/- fraction of the delay, spreads reconnect storms
+
+  // Upload
+  uploadRefreshDelayMs: 500, // listing refresh after the last upload into the current dir
+
+  // Edit in $VISUAL / $EDITOR
+  editor: 'vi', // when neither is set
+  maxEditBytes: 10485760, // 10MB - larger files are not opened in the editor
   
   // Terminal
   minTerminalWidth: 60,
@@ -106,7 +164,16 @@ export const keys = {
   // Actions
   search: '/',
   download: 'd',
+  upload: 'u',
   preview: 'p',
+  tail: 'T',
+  delete: 'x',
+  rename: 'R',
+  move: 'm',
+  mkdir: 'N',
+  chmod: 'c',
+  edit: 'e',
+  archive: 'A',
 
   refresh: 'r',
   select: 'space',
@@ -155,6 +222,29 @@ export const textExtensions = [
   'tsv',
 ] as const;
 
+// Highlighted languages in Preview, by text extension
+export const syntaxExtensions: Partial<Record<(typeof textExtensions)[number], SyntaxLanguage>> = {
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  xml: 'xml',
+  html: 'html',
+  htm: 'html',
+  ini: 'ini',
+  conf: 'ini',
+  cfg: 'ini',
+  toml: 'ini',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+};
+
+// Shown as a table in Preview
+export const tableExtensions = ['csv', 'tsv'] as const;
+
+// Directories a search does not descend into, unless a profile or --search-exclude replaces them
+export const searchExcludeDefaults = ['node_modules', '.git', '.svn', '.hg', '.snapshot', '.zfs', '__pycache__'] as const;
+
 // File Size Thresholds
 export const sizeThresholds = {
   small: 1024 * 1024,        // 1MB
@@ -170,8 +260,16 @@ export const errorMessages = {
   login: 'Authentication failed',
   notFound: 'File or directory not found',
   downloadFailed: 'Download failed',
+  uploadFailed: 'Upload failed',
+  verifyFailed: 'Verification failed',
+  operationFailed: 'Remote operation failed',
   invalidPath: 'Invalid path',
   noPermission: 'No permission to access',
+  invalidConfig: 'Invalid configuration file',
+  profileNotFound: 'Profile not found',
+  passwordFile: 'Cannot read password file',
+  archive: 'Cannot read archive',
+  invalidQuery: 'Invalid search query',
 } as const;
 
 // Status Messages
@@ -183,6 +281,7 @@ export const statusMessages = {
   loading: 'Loading...',
   searching: 'Searching...',
   downloading: 'Downloading...',
+  uploading: 'Uploading...',
   completed: 'Completed',
   failed: 'Failed',
 } as const;
@@ -201,6 +300,9 @@ export const paths = {
   parent: '..',
   current: '.',
   separator: '/',
+  configDirName: 'ftp-browser', // under $XDG_CONFIG_HOME or ~/.config
+  profilesFile: 'profiles.json',
+  indexDirName: 'index', // remote index caches, under $XDG_CACHE_HOME/ftp-browser or ~/.cache/ftp-browser
 } as const;
 
 // Regular Expressions
@@ -1,4 +1,4 @@
-import type { FormatSizeFunction } from '../types/index.js';
+import type { FormatSizeFunction, VerifyMethod } from '../types/index.js';
 
 /**
  * Formats file size in bytes to human-readable string.
@@ -77,6 +77,19 @@ export const formatTime = (seconds: number): string => {
   }
 };
 
+/**
+ * Coarse age for "indexed 3d ago".
+ * @param ms - Elapsed time in milliseconds
+ * @returns Formatted string (e.g., "45s", "12m", "5h", "3d")
+ */
+export const formatAge = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+};
+
 /**
  * Formats speed in bytes per second to human-readable string.
  * @param bytesPerSecond - Speed in bytes per second
@@ -85,3 +98,51 @@ export const formatTime = (seconds: number): string => {
 export const formatSpeed = (bytesPerSecond: number): string => {
   return `${formatFileSize(bytesPerSecond)}/s`;
 };
+
+/**
+ * Formats a verification method for display.
+ * @param method - Hash algorithm or 'size'
+ * @returns Label (e.g., "SHA-256", "size")
+ */
+export const formatVerifyMethod = (method: VerifyMethod | null): string => {
+  switch (method) {
+    case 'sha256':
+      return 'SHA-256';
+    case 'sha1':
+      return 'SHA-1';
+    case 'md5':
+      return 'MD5';
+    case 'size':
+      return 'size';
+    default:
+      return 'none';
+  }
+};
+
+/**
+ * Parses a listing's permissions ("-rwsr-x---" or "rwxr-x--T") into a mode
+ * such as 0o4750, setuid, setgid and sticky included. Returns null when it is
+ * not nine permission flags.
+ * @param permissions - Permission string from FileItem.permissions
+ */
+export const parsePermissions = (permissions: string | undefined): number | null => {
+  if (!permissions) return null;
+  const flags = permissions.length === 10 ? permissions.slice(1) : permissions;
+  if (!/^[r-][w-][xsS-][r-][w-][xsS-][r-][w-][xtT-]$/.test(flags)) return null;
+  let mode = 0;
+  for (let i = 0; i < 9; i++) {
+    // s/t mean execute plus setuid/setgid/sticky; S/T mean the bit without execute
+    if (flags[i] !== '-' && flags[i] !== 'S' && flags[i] !== 'T') mode |= 1 << (8 - i);
+  }
+  if (flags[2] === 's' || flags[2] === 'S') mode |= 0o4000;
+  if (flags[5] === 's' || flags[5] === 'S') mode |= 0o2000;
+  if (flags[8] === 't' || flags[8] === 'T') mode |= 0o1000;
+  return mode;
+};
+
+/**
+ * Formats a mode as octal: three digits (0o755 -> "755"), four when setuid,
+ * setgid or sticky is set (0o4755 -> "4755").
+ * @param mode - Permission bits
+ */
+export const formatOctalMode = (mode: number): string => (mode & 0o7777).toString(8).padStart(3, '0');
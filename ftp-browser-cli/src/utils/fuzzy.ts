@@ -0,0 +1,79 @@
+/**
+ * fzf-style fuzzy matching over paths. The pattern's characters must appear
+ * in order; the match is tightened to its shortest window, then scored:
+ * characters at the start of a path segment or word and runs of consecutive
+ * characters score higher, gaps lower, and a match within the name (the last
+ * segment) gets a bonus. A pattern with an uppercase letter is
+ * case-sensitive (smart case).
+ */
+
+import type { FuzzyMatch } from '../types/index.js';
+
+const SEPARATORS = '/-_. ';
+
+const MATCH = 16;
+const BOUNDARY_BONUS = 8;
+const RUN_BONUS = 4; // per consecutive character before this one
+const NAME_BONUS = 10;
+
+function isBoundary(text: string, i: number): boolean {
+  if (i === 0 || SEPARATORS.includes(text[i - 1])) return true;
+  // camelCase hump
+  const prev = text[i - 1];
+  const ch = text[i];
+  return prev === prev.toLowerCase() && prev !== prev.toUpperCase() && ch !== ch.toLowerCase();
+}
+
+/** One word against text; null when its characters do not all appear in order */
+export function fuzzyMatch(pattern: string, text: string): FuzzyMatch | null {
+  if (!pattern) return { score: 0, positions: [] };
+  const hay = pattern === pattern.toLowerCase() ? text.toLowerCase() : text;
+
+  // Forward: the first end where the whole pattern fits
+  let end = -1;
+  for (let i = 0, p = 0; i < hay.length; i++) {
+    if (hay[i] === pattern[p] && ++p === pattern.length) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) return null;
+
+  // Backward from that end: the latest start, for the shortest window
+  let start = end;
+  for (let i = end, p = pattern.length - 1; i >= 0; i--) {
+    if (hay[i] === pattern[p] && --p < 0) {
+      start = i;
+      break;
+    }
+  }
+
+  const positions: number[] = [];
+  let score = 0;
+  let run = 0;
+  for (let i = start, p = 0; i <= end && p < pattern.length; i++) {
+    if (hay[i] !== pattern[p]) {
+      score--; // gap inside the window
+      continue;
+    }
+    run = positions.length > 0 && positions[positions.length - 1] === i - 1 ? run + 1 : 0;
+    score += MATCH + (isBoundary(text, i) ? BOUNDARY_BONUS : 0) + run * RUN_BONUS;
+    positions.push(i);
+    p++;
+  }
+  if (start > text.lastIndexOf('/')) score += NAME_BONUS;
+  return { score, positions };
+}
+
+/** Every space-separated word of query must match (as in fzf); scores add up */
+export function fuzzyMatchAll(query: string, text: string): FuzzyMatch | null {
+  let score = 0;
+  const positions = new Set<number>();
+  for (const word of query.split(/\s+/).filter(Boolean)) {
+    const m = fuzzyMatch(word, text);
+    if (!m) return null;
+    score += m.score;
+    m.positions.forEach((p) => positions.add(p));
+  }
+  return { score, positions: [...positions].sort((a, b) => a - b) };
+}
@@ -0,0 +1,177 @@
+/**
+ * Pager window helpers: ranges are added at either end of the window as the
+ * preview scrolls, and the far end is trimmed past defaults.pagerMaxBytes.
+ * Line numbers stay exact once the window has been read from offset 0. The
+ * same window is shown as text lines or as hex dump rows.
+ */
+
+import type { PagerLine, PagerWindow } from '../types/index.js';
+import { defaults, textExtensions } from './constants.js';
+
+const NEWLINE = 0x0a;
+const HEX_ROW = 16;
+// Control characters expected in text: backspace, tab, newline, form feed, carriage return, escape
+const TEXT_CONTROLS = new Set([0x08, 0x09, 0x0a, 0x0c, 0x0d, 0x1b]);
+
+function countNewlines(buf: Buffer, from = 0, to = buf.length): number {
+  let count = 0;
+  for (let i = buf.indexOf(NEWLINE, from); i >= 0 && i < to; i = buf.indexOf(NEWLINE, i + 1)) count++;
+  return count;
+}
+
+export function windowEnd(w: PagerWindow): number {
+  return w.start + w.data.length;
+}
+
+export function atEndOfFile(w: PagerWindow): boolean {
+  return w.size !== null && windowEnd(w) >= w.size;
+}
+
+/** Window holding buf read at offset; a short read marks the end of the file */
+export function createWindow(offset: number, buf: Buffer, requested: number, size: number | null): PagerWindow {
+  return {
+    start: offset,
+    data: buf,
+    size: buf.length < requested ? offset + buf.length : size,
+    linesBefore: offset === 0 ? 0 : null,
+  };
+}
+
+/** Adds bytes read at windowEnd(w); drops whole lines from the front past the memory limit */
+export function appendRange(w: PagerWindow, buf: Buffer, requested: number): PagerWindow {
+  const data = Buffer.concat([w.data, buf]);
+  const size = buf.length < requested ? windowEnd(w) + buf.length : w.size;
+  let cut = data.length - defaults.pagerMaxBytes;
+  if (cut <= 0) return { ...w, data, size };
+  const nl = data.indexOf(NEWLINE, cut - 1);
+  cut = nl >= 0 ? nl + 1 : cut;
+  return {
+    start: w.start + cut,
+    data: data.subarray(cut),
+    size,
+    linesBefore: w.linesBefore === null ? null : w.linesBefore + countNewlines(data, 0, cut),
+  };
+}
+
+/** Adds bytes read just before w.start; drops whole lines from the back past the memory limit */
+export function prependRange(w: PagerWindow, buf: Buffer): PagerWindow {
+  const start = w.start - buf.length;
+  let data = Buffer.concat([buf, w.data]);
+  if (data.length > defaults.pagerMaxBytes) {
+    const nl = data.lastIndexOf(NEWLINE, defaults.pagerMaxBytes - 1);
+    data = data.subarray(0, nl >= 0 ? nl + 1 : defaults.pagerMaxBytes);
+  }
+  const linesBefore = start === 0 ? 0 : w.linesBefore === null ? null : w.linesBefore - countNewlines(buf);
+  return { start, data, size: w.size, linesBefore };
+}
+
+/**
+ * Complete lines of the window. A window not starting at 0 begins inside a
+ * line and one not reaching the end of the file stops inside one; those
+ * pieces are left out until the neighbouring range is loaded.
+ */
+export function windowLines(w: PagerWindow): PagerLine[] {
+  const lines: PagerLine[] = [];
+  const { data } = w;
+  const eof = atEndOfFile(w);
+  let number = w.linesBefore === null ? null : w.linesBefore + 1;
+  let pos = 0;
+  const push = (from: number, to: number) => {
+    const text = data.toString('utf8', from, to);
+    lines.push({ offset: w.start + from, number, text: text.endsWith('\r') ? text.slice(0, -1) : text });
+  };
+  if (w.start > 0) {
+    const nl = data.indexOf(NEWLINE);
+    // One line longer than the window: show the piece rather than nothing
+    if (nl < 0) {
+      if (data.length > 0) push(0, data.length);
+      return lines;
+    }
+    pos = nl + 1;
+    if (number !== null) number++;
+  }
+  while (pos < data.length) {
+    const nl = data.indexOf(NEWLINE, pos);
+    if (nl < 0) {
+      if (eof || lines.length === 0) push(pos, data.length);
+      break;
+    }
+    push(pos, nl);
+    pos = nl + 1;
+    if (number !== null) number++;
+  }
+  return lines;
+}
+
+/** Index of the line containing offset (lines sorted by offset) */
+export function lineIndexAt(lines: PagerLine[], offset: number): number {
+  let lo = 0;
+  let hi = lines.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lines[mid].offset <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return Math.max(0, lo);
+}
+
+/** Rows of 16 bytes at offsets that are multiples of 16; hexRowText renders one */
+export function windowHexRows(w: PagerWindow): PagerLine[] {
+  const rows: PagerLine[] = [];
+  const end = windowEnd(w);
+  const eof = atEndOfFile(w);
+  for (let offset = Math.ceil(w.start / HEX_ROW) * HEX_ROW; offset < end; offset += HEX_ROW) {
+    if (offset + HEX_ROW > end && !eof) break;
+    rows.push({ offset, number: null, text: '' });
+  }
+  return rows;
+}
+
+/** "00000010  48 65 6c 6c 6f 2c 20 77  6f 72 6c 64 0a 00 00 00  |Hello, world....|" */
+export function hexRowText(w: PagerWindow, offset: number): string {
+  const bytes = w.data.subarray(offset - w.start, offset - w.start + HEX_ROW);
+  const hex: string[] = [];
+  for (let i = 0; i < HEX_ROW; i++) hex.push(i < bytes.length ? bytes[i].toString(16).padStart(2, '0') : '  ');
+  const ascii = Array.from(bytes, (b) => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+  return `${offset.toString(16).padStart(8, '0')}  ${hex.slice(0, 8).join(' ')}  ${hex.slice(8).join(' ')}  |${ascii}|`;
+}
+
+/** Bytes that are not part of a well-formed UTF-8 sequence (a sequence cut off at the end counts as fine) */
+function invalidUtf8Bytes(buf: Buffer): number {
+  let bad = 0;
+  for (let i = 0; i < buf.length; ) {
+    const b = buf[i];
+    const len = b < 0x80 ? 1 : b >= 0xc2 && b < 0xe0 ? 2 : b >= 0xe0 && b < 0xf0 ? 3 : b >= 0xf0 && b < 0xf5 ? 4 : 0;
+    if (i + len > buf.length) break;
+    let valid = len > 0;
+    for (let k = 1; valid && k < len; k++) valid = (buf[i + k] & 0xc0) === 0x80;
+    if (valid) {
+      i += len;
+    } else {
+      bad++;
+      i++;
+    }
+  }
+  return bad;
+}
+
+/**
+ * Whether a sample from the start of a file is binary: NUL bytes, or too many
+ * invalid UTF-8 bytes and stray control characters. A name with an extension
+ * from textExtensions raises the bar (NULs alone do not decide it).
+ */
+export function looksBinary(sample: Buffer, name: string): boolean {
+  if (sample.length === 0) return false;
+  const dot = name.lastIndexOf('.');
+  const ext = dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+  const textHint = (textExtensions as readonly string[]).includes(ext);
+  let nul = 0;
+  let controls = 0;
+  for (const b of sample) {
+    if (b === 0) nul++;
+    else if (b < 0x20 && !TEXT_CONTROLS.has(b)) controls++;
+  }
+  if (nul > 0 && !textHint) return true;
+  const ratio = (nul + controls + invalidUtf8Bytes(sample)) / sample.length;
+  return ratio > (textHint ? 0.3 : 0.1);
+}
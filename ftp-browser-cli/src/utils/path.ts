@@ -40,3 +40,36 @@ export function getParentPath(path: string): string {
   segments.pop();
   return paths.separator + segments.join(paths.separator);
 }
+
+/**
+ * Splits a prompt line into paths: whitespace-separated, with single/double
+ * quotes and backslash escapes for names containing spaces.
+ */
+export function splitPathList(input: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let quote: string | null = null;
+  let inToken = false;
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quote) {
+      if (c === quote) quote = null;
+      else cur += c;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+      inToken = true;
+    } else if (c === '\\' && i + 1 < input.length) {
+      cur += input[++i];
+      inToken = true;
+    } else if (/\s/.test(c)) {
+      if (inToken) out.push(cur);
+      cur = '';
+      inToken = false;
+    } else {
+      cur += c;
+      inToken = true;
+    }
+  }
+  if (inToken) out.push(cur);
+  return out;
+}
@@ -0,0 +1,199 @@
+/**
+ * Lightweight syntax highlighting and pretty-printing for Preview. Lines are
+ * tokenized one at a time with a few regular expressions per language, so
+ * constructs spanning lines (block comments, YAML block scalars) are only
+ * coloured where they start.
+ */
+
+import type { SyntaxLanguage, SyntaxToken, TokenKind } from '../types/index.js';
+import { syntaxExtensions } from './constants.js';
+
+// A rule either colours its whole match or splits it further
+type Rule = [RegExp, TokenKind | null | ((match: string) => SyntaxToken[])];
+
+const WORD: Rule = [/[\w./-]+/y, null];
+
+const jsonRules: Rule[] = [
+  [/"(?:[^"\\]|\\.)*"(?=\s*:)/y, 'key'],
+  [/"(?:[^"\\]|\\.)*"?/y, 'string'],
+  [/-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y, 'number'],
+  [/(?:true|false|null)\b/y, 'keyword'],
+  [/\w+/y, null],
+];
+
+const yamlRules: Rule[] = [
+  [/(?<=^|\s)#.*/y, 'comment'],
+  [/^(?:---|\.\.\.)(?=\s|$)/y, 'keyword'],
+  [/(?<=^\s*(?:-\s+)*)(?!-(?:\s|$))[^\s#:][^:#]*?(?=:(?:\s|$))/y, 'key'],
+  [/"(?:[^"\\]|\\.)*"?|'(?:[^']|'')*'?/y, 'string'],
+  [/[&*!][\w-]+/y, 'tag'],
+  [/(?:true|false|yes|no|on|off|null|~)(?![\w.-])/iy, 'keyword'],
+  [/[-+]?(?:\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|\.inf|\.nan)(?![\w.:/-])/y, 'number'],
+  [/[\w./:-]+/y, null],
+];
+
+const tagRules: Rule[] = [
+  [/<[/?!]?[\w:.-]*/y, 'tag'],
+  [/[/?]?>/y, 'tag'],
+  [/[\w:.-]+(?=\s*=)/y, 'key'],
+  [/"[^"]*"?|'[^']*'?/y, 'string'],
+];
+
+const xmlRules: Rule[] = [
+  [/<!--.*?(?:-->|$)/y, 'comment'],
+  [/<!\[CDATA\[.*?(?:\]\]>|$)/y, 'string'],
+  [/<[/?!]?[\w:.-]+(?:[^>"']|"[^"]*"?|'[^']*'?)*>?/y, (match) => scan(match, tagRules)],
+  [/&#?\w+;/y, 'keyword'],
+  [/[^<&]+/y, null],
+];
+
+const iniRules: Rule[] = [
+  [/^\s*[;#].*/y, 'comment'],
+  [/(?<=\s)[;#].*/y, 'comment'],
+  [/^\s*\[[^\]]*\]?/y, 'tag'],
+  [/^\s*[^=:\s;#[][^=:]*?(?=\s*[=:])/y, 'key'],
+  [/"(?:[^"\\]|\\.)*"?|'[^']*'?/y, 'string'],
+  [/(?:true|false|yes|no|on|off|null)(?![\w.-])/iy, 'keyword'],
+  [/-?\d+(?:\.\d+)?(?![\w.:/-])/y, 'number'],
+  WORD,
+];
+
+const shellRules: Rule[] = [
+  [/(?<=^|\s)#.*/y, 'comment'],
+  [/"(?:[^"\\]|\\.)*"?|'[^']*'?/y, 'string'],
+  [/\$(?:\{[^}]*\}?|\w+|[@*#?$!-])/y, 'variable'],
+  [/(?<=^\s*(?:(?:export|local|readonly|declare)\s+)?)\w+(?==)/y, 'variable'],
+  [
+    /(?:if|then|else|elif|fi|for|while|until|do|done|case|esac|in|function|return|export|local|readonly|declare|break|continue|exit|source)(?![\w.-])/y,
+    'keyword',
+  ],
+  [/\d+(?![\w./-])/y, 'number'],
+  WORD,
+];
+
+const rules: Record<SyntaxLanguage, Rule[]> = {
+  json: jsonRules,
+  yaml: yamlRules,
+  xml: xmlRules,
+  html: xmlRules,
+  ini: iniRules,
+  shell: shellRules,
+};
+
+/** At each position the first matching rule wins; text no rule matches stays plain */
+function scan(text: string, ruleset: Rule[]): SyntaxToken[] {
+  const tokens: SyntaxToken[] = [];
+  let plain = '';
+  const flush = () => {
+    if (plain) tokens.push({ text: plain, kind: null });
+    plain = '';
+  };
+  let pos = 0;
+  while (pos < text.length) {
+    let matched = false;
+    for (const [re, kind] of ruleset) {
+      re.lastIndex = pos;
+      const m = re.exec(text);
+      if (!m || m[0].length === 0) continue;
+      flush();
+      if (typeof kind === 'function') tokens.push(...kind(m[0]));
+      else tokens.push({ text: m[0], kind });
+      pos += m[0].length;
+      matched = true;
+      break;
+    }
+    if (!matched) plain += text[pos++];
+  }
+  flush();
+  return tokens;
+}
+
+/** Language for a file name, from its extension; null when not highlighted */
+export function languageFor(name: string): SyntaxLanguage | null {
+  const dot = name.lastIndexOf('.');
+  if (dot < 0) return null;
+  const ext = name.slice(dot + 1).toLowerCase() as keyof typeof syntaxExtensions;
+  return syntaxExtensions[ext] ?? null;
+}
+
+export function highlightLine(text: string, language: SyntaxLanguage): SyntaxToken[] {
+  return scan(text, rules[language]);
+}
+
+export function canPrettyPrint(language: SyntaxLanguage | null): boolean {
+  return language === 'json' || language === 'xml';
+}
+
+/**
+ * Re-indents JSON without parsing values, so numbers keep their exact digits
+ * and concatenated documents (JSON lines) come out one after another.
+ */
+function prettyJson(text: string): string {
+  let out = '';
+  let depth = 0;
+  const newline = () => '\n' + '  '.repeat(depth);
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') end += text[end] === '\\' ? 2 : 1;
+      out += text.slice(i, end + 1);
+      i = end;
+    } else if (ch === '{' || ch === '[') {
+      let next = i + 1;
+      while (/\s/.test(text[next] ?? '')) next++;
+      // Keep empty objects and arrays on one line
+      if (text[next] === (ch === '{' ? '}' : ']')) {
+        out += ch + text[next];
+        i = next;
+      } else {
+        depth++;
+        out += ch + newline();
+      }
+    } else if (ch === '}' || ch === ']') {
+      depth = Math.max(0, depth - 1);
+      out += newline() + ch;
+      if (depth === 0) out += '\n';
+    } else if (ch === ',') {
+      out += ',' + newline();
+    } else if (ch === ':') {
+      out += ': ';
+    } else if (!/\s/.test(ch)) {
+      out += ch;
+    }
+  }
+  return out.replace(/\n+$/, '') + '\n';
+}
+
+const XML_NODE = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/[^>]*>|<[^>]*>|[^<]+/g;
+
+/** One node per line, indented by depth; an element holding only text stays on one line */
+function prettyXml(text: string): string {
+  const nodes = (text.match(XML_NODE) ?? []).map((n) => (n.startsWith('<') ? n : n.trim())).filter(Boolean);
+  const isOpen = (n: string | undefined) => !!n && /^<[^/?!]/.test(n) && !n.endsWith('/>');
+  const isClose = (n: string | undefined) => !!n && n.startsWith('</');
+  const lines: string[] = [];
+  let depth = 0;
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (isOpen(node) && !nodes[i + 1]?.startsWith('<') && isClose(nodes[i + 2])) {
+      lines.push('  '.repeat(depth) + node + nodes[i + 1] + nodes[i + 2]);
+      i += 2;
+    } else if (isOpen(node) && isClose(nodes[i + 1])) {
+      lines.push('  '.repeat(depth) + node + nodes[i + 1]);
+      i += 1;
+    } else if (isClose(node)) {
+      depth = Math.max(0, depth - 1);
+      lines.push('  '.repeat(depth) + node);
+    } else {
+      lines.push('  '.repeat(depth) + node);
+      if (isOpen(node)) depth++;
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Pretty-printed text for a language canPrettyPrint accepts */
+export function prettyPrint(text: string, language: SyntaxLanguage): string {
+  return language === 'json' ? prettyJson(text) : prettyXml(text);
+}
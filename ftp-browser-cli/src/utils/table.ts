@@ -0,0 +1,123 @@
+/**
+ * CSV/TSV table view for Preview. Rows are split one line at a time, so a
+ * quoted field holding a newline continues on the next row. The delimiter and
+ * the column widths come from the first lines of the file.
+ */
+
+import type { TableLayout } from '../types/index.js';
+import { defaults, tableExtensions } from './constants.js';
+
+const DELIMITERS = [',', '\t', ';', '|'];
+const SEPARATOR = ' │ ';
+
+/** CSV or TSV by extension, also when gzip-compressed ("report.csv.gz") */
+export function isTableFile(name: string): boolean {
+  const base = name.toLowerCase().replace(/\.gz$/, '');
+  const ext = base.slice(base.lastIndexOf('.') + 1);
+  return base.includes('.') && (tableExtensions as readonly string[]).includes(ext);
+}
+
+/** Fields of one line; a field starting with a double quote runs to the closing one, "" being a quote */
+export function splitRow(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let started = false; // field has content, so a quote is literal
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (line[i + 1] === '"') field += line[i++];
+      else quoted = false;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = '';
+      started = false;
+    } else if (ch === '"' && !started) {
+      quoted = true;
+      started = true;
+    } else {
+      field += ch;
+      started = true;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * The delimiter splitting most sample lines into as many fields as the
+ * first one (more fields break ties); the extension's delimiter wins a draw.
+ */
+export function detectDelimiter(sample: string[], name: string): string {
+  const lines = sample.filter((l) => l.length > 0).slice(0, 20);
+  const hint = /\.tsv(\.gz)?$/i.test(name) ? '\t' : ',';
+  let best = hint;
+  let bestScore = 0;
+  for (const delimiter of [hint, ...DELIMITERS.filter((d) => d !== hint)]) {
+    const counts = lines.map((l) => splitRow(l, delimiter).length);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    const score = counts.filter((c) => c === counts[0]).length * 1000 + counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Layout from the first lines of the file: the header row and column widths fitting the sample */
+export function tableLayout(sample: string[], name: string, display: (text: string) => string): TableLayout {
+  const delimiter = detectDelimiter(sample, name);
+  const rows = sample.slice(0, defaults.tableSampleRows).map((l) => splitRow(l, delimiter).map(display));
+  const widths: number[] = [];
+  for (const row of rows) {
+    row.forEach((cell, i) => {
+      widths[i] = Math.min(defaults.tableMaxColumnWidth, Math.max(widths[i] ?? 1, cell.length));
+    });
+  }
+  return { delimiter, header: rows[0] ?? [], widths };
+}
+
+/** Cell padded or cut ('…') to width */
+function fitCell(cell: string, width: number): string {
+  return cell.length > width ? `${cell.slice(0, width - 1)}…` : cell.padEnd(width);
+}
+
+/**
+ * Cells from column `from` on, aligned and joined, cut to maxWidth; more is
+ * set when columns past the right edge were left out. Columns beyond the
+ * header get the widest width.
+ */
+export function formatRow(
+  cells: string[],
+  layout: TableLayout,
+  from: number,
+  maxWidth: number
+): { text: string; more: boolean } {
+  let text = '';
+  const count = Math.max(cells.length, layout.widths.length);
+  for (let i = from; i < count; i++) {
+    const width = layout.widths[i] ?? defaults.tableMaxColumnWidth;
+    const cell = fitCell(cells[i] ?? '', width);
+    const next = i > from ? SEPARATOR + cell : cell;
+    if (text.length + next.length > maxWidth) {
+      // A first column wider than the screen is shown cut rather than not at all
+      if (i === from) text = cell.slice(0, maxWidth);
+      return { text, more: true };
+    }
+    text += next;
+  }
+  return { text, more: false };
+}
+
+/** Rule under the header, crossing the column separators */
+export function headerRule(layout: TableLayout, from: number, maxWidth: number): string {
+  const { text } = formatRow(
+    layout.widths.map((w) => '─'.repeat(w)),
+    layout,
+    from,
+    maxWidth
+  );
+  return text.replaceAll(SEPARATOR, '─┼─');
+}